@@ -0,0 +1,135 @@
+import {
+  FieldNode,
+  getNamedType,
+  GraphQLObjectType,
+  GraphQLSchema,
+  isObjectType,
+  Kind,
+  SelectionNode,
+  SelectionSetNode,
+  TypeInfo,
+  visit,
+  visitWithTypeInfo
+} from "graphql";
+import { Transform } from "graphql-tools";
+
+export interface KeyFieldsMap {
+  [typeName: string]: SelectionSetNode[];
+}
+
+export function addKeyFields(
+  keyFields: KeyFieldsMap,
+  typeName: string,
+  key: SelectionSetNode
+) {
+  if (!keyFields[typeName]) {
+    keyFields[typeName] = [];
+  }
+  if (!keyFields[typeName].includes(key)) {
+    keyFields[typeName].push(key);
+  }
+}
+
+export function createAddKeyFieldsTransform(
+  schema: GraphQLSchema,
+  keyFields: KeyFieldsMap
+): Transform {
+  return {
+    transformRequest(request) {
+      const typeInfo = new TypeInfo(schema);
+      const document = visit(
+        request.document,
+        visitWithTypeInfo(typeInfo, {
+          [Kind.SELECTION_SET](node: SelectionSetNode) {
+            const parentType = typeInfo.getParentType();
+            const keys = parentType && keyFields[parentType.name];
+            if (!keys || !isObjectType(parentType)) {
+              return undefined;
+            }
+            return keys.reduce(
+              (selectionSet, key) =>
+                mergeKeySelections(selectionSet, key, parentType),
+              node
+            );
+          }
+        })
+      );
+      return { ...request, document };
+    }
+  };
+}
+
+function mergeKeySelections(
+  selectionSet: SelectionSetNode,
+  key: SelectionSetNode,
+  type: GraphQLObjectType
+): SelectionSetNode {
+  const selections = [...selectionSet.selections];
+  for (const keySelection of key.selections) {
+    if (
+      keySelection.kind !== Kind.FIELD ||
+      !type.getFields()[keySelection.name.value]
+    ) {
+      continue;
+    }
+    const index = selections.findIndex(
+      selection =>
+        selection.kind === Kind.FIELD &&
+        getResponseKey(selection) === keySelection.name.value
+    );
+    if (index === -1) {
+      selections.push(keySelection);
+      continue;
+    }
+    const existing = selections[index] as FieldNode;
+    // The client aliased another field onto the key's name, so the key is
+    // fetched under a private alias instead.
+    if (existing.name.value !== keySelection.name.value) {
+      const alias = getKeyAlias(keySelection.name.value);
+      if (!selections.some(selection => getResponseKey(selection) === alias)) {
+        selections.push({
+          ...keySelection,
+          alias: { kind: Kind.NAME, value: alias }
+        });
+      }
+      continue;
+    }
+    const namedType = getNamedType(
+      type.getFields()[keySelection.name.value].type
+    );
+    if (
+      existing.selectionSet &&
+      keySelection.selectionSet &&
+      isObjectType(namedType)
+    ) {
+      selections[index] = {
+        ...existing,
+        selectionSet: mergeKeySelections(
+          existing.selectionSet,
+          keySelection.selectionSet,
+          namedType
+        )
+      };
+    }
+  }
+  return { ...selectionSet, selections };
+}
+
+// Names starting with __ are reserved by GraphQL, so clients can't use them as
+// aliases of their own.
+function getKeyAlias(fieldName: string) {
+  return `__key_${fieldName}`;
+}
+
+// Reads a key field from a result, which holds it under the private alias if
+// the client used its name for another field.
+export function getKeyFieldValue(parent: any, fieldName: string) {
+  const value = parent[getKeyAlias(fieldName)];
+  return value === undefined ? parent[fieldName] : value;
+}
+
+function getResponseKey(selection: SelectionNode) {
+  return selection.kind === Kind.FIELD
+    ? (selection.alias || selection.name).value
+    : undefined;
+}
@@ -0,0 +1,249 @@
+import {
+  ArgumentNode,
+  DirectiveNode,
+  GraphQLSchema,
+  Kind,
+  parse,
+  print,
+  printSchema,
+  SelectionSetNode,
+  ValueNode,
+  visit
+} from "graphql";
+import { uniq } from "lodash";
+import { MergeHint } from "./merge-hints";
+import { SubschemaConfig } from "./subschema-config";
+
+export interface MergeLookupReport {
+  fieldName: string;
+  batchFieldName?: string;
+  key: string;
+  requires?: string;
+}
+
+export interface FieldReport {
+  // Subschemas the field is resolved from, more than one when it's routed.
+  owners: string[];
+  subschemas: string[];
+  // Subschemas that declare the field too, but don't resolve it.
+  shadowed: string[];
+  // How a routed root field picks among its owners: it's sent to all of them,
+  // or to the ones its router returns.
+  routing?: "all" | "router";
+  lookup?: MergeLookupReport;
+}
+
+export interface TypeReport {
+  kind: string;
+  owner: string;
+  subschemas: string[];
+  fields: { [fieldName: string]: FieldReport };
+}
+
+export interface SkippedTypeReport {
+  typeName: string;
+  subschemas: string[];
+  reason: string;
+}
+
+export interface CompositionReport {
+  types: { [typeName: string]: TypeReport };
+  skippedTypes: SkippedTypeReport[];
+}
+
+type OrderedCandidates = Array<{ subschema: SubschemaConfig }>;
+
+export function createCompositionReport(): CompositionReport {
+  return { types: {}, skippedTypes: [] };
+}
+
+export function reportType(
+  report: CompositionReport,
+  typeName: string,
+  kind: string,
+  candidates: OrderedCandidates
+) {
+  const subschemas = getNames(candidates);
+  report.types[typeName] = {
+    kind,
+    owner: subschemas[0],
+    subschemas,
+    fields: {}
+  };
+}
+
+export function reportField(
+  report: CompositionReport,
+  typeName: string,
+  fieldName: string,
+  candidates: OrderedCandidates,
+  owners: string[],
+  mergeHint?: MergeHint,
+  routing?: "all" | "router"
+) {
+  const subschemas = getNames(candidates);
+  report.types[typeName].fields[fieldName] = {
+    owners,
+    subschemas,
+    shadowed: subschemas.filter(name => !owners.includes(name)),
+    ...(routing ? { routing } : {}),
+    ...(mergeHint ? { lookup: createLookupReport(fieldName, mergeHint) } : {})
+  };
+}
+
+export function reportSkippedType(
+  report: CompositionReport,
+  typeName: string,
+  candidates: OrderedCandidates,
+  reason: string
+) {
+  const skippedType = report.skippedTypes.find(
+    skipped => skipped.typeName === typeName && skipped.reason === reason
+  );
+  if (skippedType) {
+    skippedType.subschemas = uniq([
+      ...skippedType.subschemas,
+      ...getNames(candidates)
+    ]);
+  } else {
+    report.skippedTypes.push({
+      typeName,
+      subschemas: getNames(candidates),
+      reason
+    });
+  }
+}
+
+function getNames(candidates: OrderedCandidates) {
+  return uniq(candidates.map(({ subschema }) => subschema.name));
+}
+
+function createLookupReport(
+  fieldName: string,
+  mergeHint: MergeHint
+): MergeLookupReport {
+  const requires = mergeHint.requires[fieldName];
+  return {
+    fieldName: mergeHint.fieldName,
+    ...(mergeHint.batchFieldName
+      ? { batchFieldName: mergeHint.batchFieldName }
+      : {}),
+    key: printSelections(mergeHint.key),
+    ...(requires ? { requires: printSelections(requires) } : {})
+  };
+}
+
+function printSelections(selectionSet: SelectionSetNode) {
+  return selectionSet.selections
+    .map(selection => print(selection).replace(/\s+/g, " "))
+    .join(" ");
+}
+
+const mergedDirectiveDefinition = `directive @merged(
+  owners: [String!]!
+  subschemas: [String!]!
+  shadowed: [String!]
+  lookup: String
+  batchLookup: String
+  key: String
+  requires: String
+) on SCALAR | OBJECT | FIELD_DEFINITION | INTERFACE | UNION | ENUM | INPUT_OBJECT`;
+
+// Prints the merged schema with a `@merged` directive on every type and field,
+// naming the subschemas that declare it and the one that resolves it, so the
+// composition can be committed and reviewed. Skipped types are listed in a
+// comment at the top.
+export function printAnnotatedSchema(
+  schema: GraphQLSchema,
+  report: CompositionReport
+) {
+  const document = visit(parse(printSchema(schema)), {
+    enter(node: any) {
+      if (
+        !node.name ||
+        !report.types[node.name.value] ||
+        !node.kind.endsWith("TypeDefinition")
+      ) {
+        return undefined;
+      }
+      const typeReport = report.types[node.name.value];
+      return {
+        ...node,
+        directives: [
+          ...(node.directives || []),
+          createMergedDirective({
+            owners: [typeReport.owner],
+            subschemas: typeReport.subschemas
+          })
+        ],
+        fields:
+          node.kind === Kind.INPUT_OBJECT_TYPE_DEFINITION
+            ? node.fields
+            : node.fields &&
+              node.fields.map((field: any) => {
+                const fieldReport = typeReport.fields[field.name.value];
+                return fieldReport
+                  ? {
+                      ...field,
+                      directives: [
+                        ...(field.directives || []),
+                        createMergedDirective({
+                          owners: fieldReport.owners,
+                          subschemas: fieldReport.subschemas,
+                          shadowed: fieldReport.shadowed,
+                          ...(fieldReport.lookup
+                            ? {
+                                lookup: fieldReport.lookup.fieldName,
+                                batchLookup: fieldReport.lookup.batchFieldName,
+                                key: fieldReport.lookup.key,
+                                requires: fieldReport.lookup.requires
+                              }
+                            : {})
+                        })
+                      ]
+                    }
+                  : field;
+              })
+      };
+    }
+  });
+  const skippedTypes = report.skippedTypes.map(
+    ({ typeName, subschemas, reason }) =>
+      `# Skipped ${typeName} (${reason}) declared by ${subschemas.join(", ")}\n`
+  );
+  return `${skippedTypes.join("")}${
+    skippedTypes.length > 0 ? "\n" : ""
+  }${mergedDirectiveDefinition}\n\n${print(document)}\n`;
+}
+
+function createMergedDirective(args: {
+  [name: string]: string | string[] | undefined;
+}): DirectiveNode {
+  return {
+    kind: Kind.DIRECTIVE,
+    name: { kind: Kind.NAME, value: "merged" },
+    arguments: Object.entries(args)
+      .filter(
+        ([, value]) =>
+          value !== undefined && !(Array.isArray(value) && value.length === 0)
+      )
+      .map(
+        ([name, value]): ArgumentNode => ({
+          kind: Kind.ARGUMENT,
+          name: { kind: Kind.NAME, value: name },
+          value: createValueNode(value!)
+        })
+      )
+  };
+}
+
+function createValueNode(value: string | string[]): ValueNode {
+  return Array.isArray(value)
+    ? {
+        kind: Kind.LIST,
+        values: value.map(
+          item => ({ kind: Kind.STRING, value: item } as ValueNode)
+        )
+      }
+    : { kind: Kind.STRING, value };
+}
@@ -0,0 +1,136 @@
+import {
+  FieldNode,
+  FragmentDefinitionNode,
+  GraphQLResolveInfo,
+  Kind,
+  print,
+  visit
+} from "graphql";
+import { isForwardedErrors } from "./forward-errors";
+import { MergeHint } from "./merge-hints";
+
+// Stores looked up entities. `get` returns undefined, or a promise of it, for
+// entries that are missing or expired.
+export interface CacheStore {
+  get(key: string): any;
+  set(key: string, value: any, maxAge: number): void | Promise<void>;
+}
+
+// The store along with the scope of the requests, which is added to the keys
+// so that entries of one caller aren't served to another.
+export interface EntityCache {
+  store: CacheStore;
+  scope?: (context: any) => any;
+}
+
+// Keeps at most `maxEntries` entries. When it's full, expired entries are
+// removed first, and then the least recently used one.
+export function createInMemoryCacheStore({
+  maxEntries = 1000
+}: { maxEntries?: number } = {}): CacheStore {
+  const entries = new Map<string, { value: any; expires: number }>();
+  return {
+    get(key: string) {
+      const entry = entries.get(key);
+      if (!entry) {
+        return undefined;
+      }
+      entries.delete(key);
+      if (entry.expires <= Date.now()) {
+        return undefined;
+      }
+      // Maps iterate in insertion order, so the first entry is the least
+      // recently used one.
+      entries.set(key, entry);
+      return entry.value;
+    },
+    set(key: string, value: any, maxAge: number) {
+      entries.delete(key);
+      if (entries.size >= maxEntries) {
+        const now = Date.now();
+        for (const [entryKey, { expires }] of entries) {
+          if (expires <= now) {
+            entries.delete(entryKey);
+          }
+        }
+      }
+      if (entries.size >= maxEntries) {
+        entries.delete(entries.keys().next().value);
+      }
+      entries.set(key, { value, expires: Date.now() + maxAge * 1000 });
+    }
+  };
+}
+
+// Fields are cached for the shortest maxAge of the fields that were looked up,
+// and aren't cached at all if one of them doesn't have a maxAge.
+export function getCacheMaxAge(
+  { maxAge, fieldMaxAges }: MergeHint,
+  fieldNodes: FieldNode[]
+) {
+  const maxAges = fieldNodes.map(({ name }) =>
+    fieldMaxAges[name.value] === undefined ? maxAge : fieldMaxAges[name.value]
+  );
+  if (maxAges.length === 0 || maxAges.some(value => value === undefined)) {
+    return undefined;
+  }
+  const shortestMaxAge = Math.min(...(maxAges as number[]));
+  return shortestMaxAge > 0 ? shortestMaxAge : undefined;
+}
+
+export function getCacheKey(
+  subschemaName: string,
+  typeName: string,
+  key: any,
+  fieldNodes: FieldNode[],
+  info: GraphQLResolveInfo,
+  scope?: any
+) {
+  return JSON.stringify([
+    subschemaName,
+    typeName,
+    key,
+    getSelectionKey(fieldNodes, info),
+    ...(scope === undefined ? [] : [scope])
+  ]);
+}
+
+// The selection includes the fragments and the values of the variables it uses,
+// as they're sent along with it.
+function getSelectionKey(fieldNodes: FieldNode[], info: GraphQLResolveInfo) {
+  const fragments = new Map<string, FragmentDefinitionNode>();
+  const variables: { [name: string]: any } = {};
+  const collect = (node: any) =>
+    visit(node, {
+      [Kind.FRAGMENT_SPREAD]: ({ name }: any) => {
+        const fragment = info.fragments[name.value];
+        if (fragment && !fragments.has(name.value)) {
+          fragments.set(name.value, fragment);
+          collect(fragment);
+        }
+      },
+      [Kind.VARIABLE]: ({ name }: any) => {
+        variables[name.value] = info.variableValues[name.value];
+      }
+    });
+  fieldNodes.forEach(collect);
+  return {
+    selection: [...fieldNodes, ...fragments.values()].map(node => print(node)),
+    variables
+  };
+}
+
+// Results that contain errors aren't cached, so they're retried by the next
+// request.
+export function isCacheable(value: any): boolean {
+  if (value === null || value === undefined || isForwardedErrors(value)) {
+    return false;
+  } else if (Array.isArray(value)) {
+    return value.every(item => item === null || isCacheable(item));
+  } else if (typeof value === "object") {
+    return Object.values(value).every(
+      item => item === null || isCacheable(item)
+    );
+  }
+  return true;
+}
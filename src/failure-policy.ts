@@ -0,0 +1,71 @@
+import { GraphQLResolveInfo } from "graphql";
+
+export type FailureResolver = (
+  error: Error,
+  parent: any,
+  args: { [key: string]: any },
+  context: any,
+  info: GraphQLResolveInfo
+) => any;
+
+export type FailurePolicy =
+  | "propagate"
+  | "null"
+  | { fallbackValue: any }
+  | { fallbackResolver: FailureResolver };
+
+export class SubschemaTimeoutError extends Error {
+  public extensions: { code: string; subschema: string };
+
+  constructor(subschemaName: string, timeout: number) {
+    super(`Subschema ${subschemaName} timed out after ${timeout}ms`);
+    this.name = "SubschemaTimeoutError";
+    this.extensions = { code: "SUBSCHEMA_TIMEOUT", subschema: subschemaName };
+  }
+}
+
+export function withTimeout<T>(
+  promise: Promise<T>,
+  subschemaName: string,
+  timeout?: number
+): Promise<T> {
+  if (timeout === undefined) {
+    return promise;
+  }
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(
+      () => reject(new SubschemaTimeoutError(subschemaName, timeout)),
+      timeout
+    );
+    promise.then(
+      result => {
+        clearTimeout(timer);
+        resolve(result);
+      },
+      error => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+}
+
+// Called when a subschema didn't return a value for a field it was asked for,
+// either because the request failed or timed out, or because it returned
+// errors instead.
+export function handleFailure(
+  policy: FailurePolicy = "propagate",
+  error: Error,
+  parent: any,
+  args: { [key: string]: any },
+  context: any,
+  info: GraphQLResolveInfo
+) {
+  if (policy === "propagate" || policy === "null") {
+    throw error;
+  } else if ("fallbackValue" in policy) {
+    return policy.fallbackValue;
+  } else {
+    return policy.fallbackResolver(error, parent, args, context, info);
+  }
+}
@@ -0,0 +1,131 @@
+import {
+  DirectiveNode,
+  FieldNode,
+  graphql,
+  GraphQLSchema,
+  Kind,
+  parse,
+  valueFromASTUntyped
+} from "graphql";
+import { MergeTypeConfigMap, parseKey } from "./merge-hints";
+import { SubschemaConfig } from "./subschema-config";
+import { createHideTransform } from "./transforms";
+
+const federationTypeNames = ["_Any", "_Entity", "_Service", "_FieldSet"];
+const federationRootFieldNames = ["_entities", "_service"];
+
+function isFederatedSchema(schema: GraphQLSchema) {
+  const queryType = schema.getQueryType();
+  return Boolean(queryType && queryType.getFields()._service);
+}
+
+// The entry points of federated services are only used to look up entities,
+// so they're left out of the merged schema.
+export function isFederationType(schema: GraphQLSchema, typeName: string) {
+  return federationTypeNames.includes(typeName) && isFederatedSchema(schema);
+}
+
+export function isFederationRootField(
+  schema: GraphQLSchema,
+  fieldName: string
+) {
+  return (
+    federationRootFieldNames.includes(fieldName) && isFederatedSchema(schema)
+  );
+}
+
+// Reads the `@key` and `@requires` directives of a federated service from
+// `_service { sdl }`, as they're missing from introspected schemas. Fields
+// marked as `@external` are hidden, apart from keys, since the service can't
+// resolve them itself.
+export function createFederatedSubschema(
+  subschema: SubschemaConfig
+): Promise<SubschemaConfig> {
+  return Promise.resolve(
+    graphql(subschema.schema, "{ _service { sdl } }")
+  ).then(result => {
+    if (result.errors || !result.data) {
+      throw new Error(
+        `Can't read the SDL of subschema ${subschema.name}: ${(
+          result.errors || []
+        )
+          .map(({ message }) => message)
+          .join(", ")}`
+      );
+    }
+    const { merge, externalFields } = readFederationDirectives(
+      result.data._service.sdl
+    );
+    for (const [typeName, config] of Object.entries(subschema.merge || {})) {
+      merge[typeName] = { ...merge[typeName], ...config };
+    }
+    return {
+      ...subschema,
+      merge,
+      transforms:
+        externalFields.length > 0
+          ? [
+              createHideTransform(externalFields),
+              ...(subschema.transforms || [])
+            ]
+          : subschema.transforms
+    };
+  });
+}
+
+function readFederationDirectives(sdl: string) {
+  const merge: MergeTypeConfigMap = {};
+  const externalFields: string[] = [];
+  const keyFields = new Set<string>();
+  for (const definition of parse(sdl).definitions) {
+    if (
+      definition.kind !== Kind.OBJECT_TYPE_DEFINITION &&
+      definition.kind !== Kind.OBJECT_TYPE_EXTENSION
+    ) {
+      continue;
+    }
+    const typeName = definition.name.value;
+    for (const keyDirective of findDirectives(definition.directives, "key")) {
+      const key = getFieldsArgument(keyDirective);
+      merge[typeName] = { key, ...merge[typeName] };
+      for (const selection of parseKey(key).selections) {
+        keyFields.add(`${typeName}.${(selection as FieldNode).name.value}`);
+      }
+    }
+    for (const field of definition.fields || []) {
+      const path = `${typeName}.${field.name.value}`;
+      if (findDirectives(field.directives, "external").length > 0) {
+        externalFields.push(path);
+      }
+      const [requiresDirective] = findDirectives(field.directives, "requires");
+      if (requiresDirective) {
+        const config = merge[typeName] || {};
+        merge[typeName] = {
+          ...config,
+          requires: {
+            ...config.requires,
+            [field.name.value]: getFieldsArgument(requiresDirective)
+          }
+        };
+      }
+    }
+  }
+  return {
+    merge,
+    externalFields: externalFields.filter(path => !keyFields.has(path))
+  };
+}
+
+function findDirectives(
+  directives: ReadonlyArray<DirectiveNode> | undefined,
+  name: string
+) {
+  return (directives || []).filter(directive => directive.name.value === name);
+}
+
+function getFieldsArgument(directive: DirectiveNode): string {
+  const argument = (directive.arguments || []).find(
+    arg => arg.name.value === "fields"
+  );
+  return argument ? valueFromASTUntyped(argument.value) : "";
+}
@@ -0,0 +1,199 @@
+import {
+  ExecutionResult,
+  GraphQLError,
+  GraphQLResolveInfo,
+  responsePathAsArray
+} from "graphql";
+import { Transform } from "graphql-tools";
+import { flatten } from "lodash";
+
+type ResponsePath = ReadonlyArray<string | number>;
+
+interface RemoteError {
+  message: string;
+  path?: ResponsePath;
+  extensions?: { [key: string]: any };
+  originalError?: Error;
+}
+
+// Takes the place of a value that a subschema returned as null because of
+// errors. Paths of the errors are relative to the value's location.
+class ForwardedErrors {
+  constructor(public subschemaName: string, public errors: RemoteError[]) {}
+}
+
+// Moves the errors of a delegated result into its data, so they're thrown by
+// the resolvers of the merged schema at the location they belong to instead of
+// being combined by graphql-tools.
+export function createForwardErrorsTransform(
+  subschemaName: string,
+  fieldName: string
+): Transform {
+  return {
+    transformResult(result: ExecutionResult) {
+      if (!result.errors || result.errors.length === 0) {
+        return result;
+      }
+      const data: { [key: string]: any } = result.data || {};
+      for (const error of result.errors) {
+        for (const remoteError of getRemoteErrors(error, fieldName)) {
+          embedError(data, subschemaName, remoteError);
+        }
+      }
+      return { data };
+    }
+  };
+}
+
+function getRemoteErrors(error: any, fieldName: string): RemoteError[] {
+  const originalError = error.originalError;
+  // Remote schemas created with graphql-tools combine the errors of a field
+  // into one error, so they're split up again.
+  if (originalError && Array.isArray(originalError.errors)) {
+    return flatten(
+      originalError.errors.map((childError: any) =>
+        getRemoteErrors(childError, fieldName)
+      )
+    );
+  }
+  return [
+    {
+      message: error.message,
+      path: (originalError && Array.isArray(originalError.path)
+        ? originalError.path
+        : error.path) || [fieldName],
+      extensions: error.extensions,
+      originalError: error instanceof Error ? error : undefined
+    }
+  ];
+}
+
+function embedError(data: any, subschemaName: string, error: RemoteError) {
+  const path = error.path!;
+  let parent = data;
+  let index = 1;
+  while (
+    index < path.length &&
+    parent[path[index - 1]] !== null &&
+    typeof parent[path[index - 1]] === "object" &&
+    !(parent[path[index - 1]] instanceof ForwardedErrors)
+  ) {
+    parent = parent[path[index - 1]];
+    index++;
+  }
+  const key = path[index - 1];
+  const relativeError = { ...error, path: path.slice(index) };
+  if (parent[key] instanceof ForwardedErrors) {
+    parent[key].errors.push(relativeError);
+  } else if (parent[key] === null || parent[key] === undefined) {
+    parent[key] = new ForwardedErrors(subschemaName, [relativeError]);
+  }
+}
+
+// Throws the forwarded errors found in a resolved value, and replaces the ones
+// found in lists by errors located at their index.
+export function locateForwardedErrors(value: any, info: GraphQLResolveInfo) {
+  return locateValue(value, info, responsePathAsArray(info.path));
+}
+
+function locateValue(
+  value: any,
+  info: GraphQLResolveInfo,
+  path: ResponsePath
+): any {
+  if (value instanceof ForwardedErrors) {
+    throw createGraphQLError(value, info, path);
+  } else if (Array.isArray(value)) {
+    return value.map((item, index) =>
+      item instanceof ForwardedErrors
+        ? createGraphQLError(item, info, [...path, index])
+        : locateValue(item, info, [...path, index])
+    );
+  }
+  return value;
+}
+
+// Resolves a field from the result of a merge query, which may have failed as
+// a whole. Only the errors for the field itself are thrown, as its siblings
+// report their own.
+export function resolveFromForwardedErrors(
+  parent: ForwardedErrors,
+  responseKey: string,
+  info: GraphQLResolveInfo
+) {
+  const errors = parent.errors
+    .filter(({ path }) => !path || path.length === 0 || path[0] === responseKey)
+    .map(error => ({
+      ...error,
+      path: error.path && error.path.slice(1)
+    }));
+  if (errors.length > 0) {
+    throw createGraphQLError(
+      new ForwardedErrors(parent.subschemaName, errors),
+      info,
+      responsePathAsArray(info.path)
+    );
+  }
+  return null;
+}
+
+// Splits the errors of a batched merge query that failed as a whole between its
+// keys. Errors located at an item only go to that key, and the others go to
+// every key.
+export function splitForwardedErrors(
+  { subschemaName, errors }: ForwardedErrors,
+  keyCount: number
+): ForwardedErrors[] {
+  return Array.from({ length: keyCount }, (_, index) => {
+    const keyErrors = errors
+      .filter(
+        ({ path }) => !path || typeof path[0] !== "number" || path[0] === index
+      )
+      .map(error =>
+        error.path && typeof error.path[0] === "number"
+          ? { ...error, path: error.path.slice(1) }
+          : error
+      );
+    return new ForwardedErrors(subschemaName, keyErrors);
+  });
+}
+
+export function isForwardedErrors(value: any): value is ForwardedErrors {
+  return value instanceof ForwardedErrors;
+}
+
+function createGraphQLError(
+  { subschemaName, errors }: ForwardedErrors,
+  info: GraphQLResolveInfo,
+  path: ResponsePath
+) {
+  const [first] = errors;
+  if (errors.length === 1) {
+    return new GraphQLError(
+      first.message,
+      info.fieldNodes,
+      undefined,
+      undefined,
+      [...path, ...(first.path || [])],
+      first.originalError,
+      { ...first.extensions, subschema: subschemaName }
+    );
+  }
+  return new GraphQLError(
+    errors.map(({ message }) => message).join("\n"),
+    info.fieldNodes,
+    undefined,
+    undefined,
+    path,
+    undefined,
+    {
+      ...first.extensions,
+      subschema: subschemaName,
+      errors: errors.map(error => ({
+        message: error.message,
+        path: [...path, ...(error.path || [])],
+        extensions: error.extensions
+      }))
+    }
+  );
+}
@@ -0,0 +1,265 @@
+import { graphql, GraphQLObjectType, GraphQLSchema, print } from "graphql";
+import { makeExecutableSchema } from "graphql-tools";
+import "jasmine";
+import { createGateway, SubschemaSource } from "./gateway";
+import { mergeHintTypeDefs } from "./merge-hints";
+
+describe("createGateway", () => {
+  const postSchema = makeExecutableSchema({
+    typeDefs: `
+      type Query {
+        posts: [Post]
+      }
+
+      type Post {
+        id: ID!
+        author: User
+      }
+
+      type User {
+        id: ID!
+      }
+    `,
+    resolvers: {
+      Query: {
+        posts: () => [{ id: "1", author: { id: "1" } }]
+      }
+    }
+  });
+
+  // Stands in for a service that's deployed with new type definitions while
+  // the gateway is running.
+  const createUserSource = (typeDefs: string) => {
+    const service = { typeDefs };
+    const source: SubschemaSource = {
+      name: "users",
+      load: () => service.typeDefs,
+      fetcher: ({ query, variables }) =>
+        graphql(
+          makeExecutableSchema({
+            typeDefs: service.typeDefs,
+            resolvers: {
+              Query: {
+                user: (parent: any, { id }: any) => ({
+                  id,
+                  name: "Ada",
+                  email: "ada@example.com"
+                })
+              }
+            }
+          }),
+          print(query),
+          null,
+          null,
+          variables
+        )
+    };
+    return { service, source };
+  };
+
+  const userTypeDefs = `
+    type Query {
+      user(id: ID!): User
+    }
+
+    type User {
+      id: ID!
+      name: String
+    }
+  `;
+
+  const userTypeDefsWithEmail = `
+    type Query {
+      user(id: ID!): User
+    }
+
+    type User {
+      id: ID!
+      name: String
+      email: String
+    }
+  `;
+
+  const getUserFields = (schema: GraphQLSchema) =>
+    Object.keys((schema.getType("User") as GraphQLObjectType).getFields());
+
+  it("should compose a schema from its sources", () => {
+    const { source } = createUserSource(userTypeDefs);
+    const gateway = createGateway({
+      sources: [source, { name: "posts", load: () => postSchema }]
+    });
+    return gateway
+      .start()
+      .then(schema => {
+        expect(gateway.getSchema()).toBe(schema);
+        return graphql(schema, "{ posts { id author { name } } }");
+      })
+      .then(result => {
+        expect(result).toEqual({
+          data: { posts: [{ id: "1", author: { name: "Ada" } }] }
+        });
+      });
+  });
+
+  it("should recompose when a source changes", () => {
+    const { service, source } = createUserSource(userTypeDefs);
+    const gateway = createGateway({
+      sources: [source, { name: "posts", load: () => postSchema }]
+    });
+    const listener = jasmine.createSpy("listener");
+    gateway.onSchemaChange(listener);
+    return gateway
+      .start()
+      .then(firstSchema => {
+        service.typeDefs = userTypeDefsWithEmail;
+        return gateway.reload(["users"]).then(schema => {
+          expect(schema).not.toBe(firstSchema);
+          expect(getUserFields(schema)).toEqual(["id", "name", "email"]);
+          return gateway.reload();
+        });
+      })
+      .then(schema => {
+        expect(gateway.getSchema()).toBe(schema);
+        expect(listener).toHaveBeenCalledTimes(2);
+        return graphql(schema, "{ posts { author { email } } }");
+      })
+      .then(result => {
+        expect(result).toEqual({
+          data: { posts: [{ author: { email: "ada@example.com" } }] }
+        });
+      });
+  });
+
+  it("should recompose when only the directives of a source change", () => {
+    const catalogSchema = makeExecutableSchema({
+      typeDefs: `
+        type Query {
+          products: [Product]
+        }
+
+        type Product {
+          sku: String!
+        }
+      `,
+      resolvers: {
+        Query: {
+          products: () => [{ sku: "a" }]
+        }
+      }
+    });
+    const createPricingSchema = (field: string) =>
+      makeExecutableSchema({
+        typeDefs: [
+          mergeHintTypeDefs,
+          `
+            type Query {
+              product(sku: String!): Product
+              bySku(sku: String!): Product
+            }
+
+            type Product @key(fields: "sku") @mergeQuery(field: "${field}") {
+              sku: String!
+              price: Int
+            }
+          `
+        ],
+        resolvers: {
+          Query: {
+            product: (parent: any, { sku }: any) => ({ sku, price: 1 }),
+            bySku: (parent: any, { sku }: any) => ({ sku, price: 2 })
+          }
+        }
+      });
+    let mergeQuery = "product";
+    const gateway = createGateway({
+      sources: [
+        { name: "catalog", load: () => catalogSchema },
+        { name: "pricing", load: () => createPricingSchema(mergeQuery) }
+      ]
+    });
+    return gateway
+      .start()
+      .then(() => {
+        mergeQuery = "bySku";
+        return gateway.reload();
+      })
+      .then(schema => graphql(schema, "{ products { price } }"))
+      .then(result => {
+        expect(result).toEqual({ data: { products: [{ price: 2 }] } });
+      });
+  });
+
+  it("should only start once", () => {
+    const load = jasmine.createSpy("load").and.returnValue(postSchema);
+    const gateway = createGateway({ sources: [{ name: "posts", load }] });
+    const started = gateway.start();
+    expect(gateway.start()).toBe(started);
+    return started.then(() => {
+      expect(gateway.start()).toBe(started);
+      expect(load).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  it("should keep the last good schema when composition fails", () => {
+    const { service, source } = createUserSource(userTypeDefs);
+    const gateway = createGateway({
+      sources: [source, { name: "posts", load: () => postSchema }]
+    });
+    return gateway.start().then(firstSchema => {
+      service.typeDefs = userTypeDefs.replace(/id: ID!\n/, "id: Int!\n");
+      return gateway.reload().then(
+        () => fail("Expected an error"),
+        error => {
+          expect(error.message).toContain("User.id");
+          expect(gateway.getSchema()).toBe(firstSchema);
+        }
+      );
+    });
+  });
+
+  it("should report sources that fail to load", () => {
+    const gateway = createGateway({
+      sources: [
+        {
+          name: "users",
+          load: () => Promise.reject(new Error("connect ECONNREFUSED"))
+        }
+      ]
+    });
+    return gateway.start().then(
+      () => fail("Expected an error"),
+      error => {
+        expect(error.message).toEqual(
+          "Can't load source users: connect ECONNREFUSED"
+        );
+        expect(() => gateway.getSchema()).toThrowError(
+          "The gateway hasn't composed a schema yet"
+        );
+      }
+    );
+  });
+
+  it("should poll its sources", () => {
+    const { service, source } = createUserSource(userTypeDefs);
+    const onError = jasmine.createSpy("onError");
+    const gateway = createGateway({
+      sources: [source, { name: "posts", load: () => postSchema }],
+      pollInterval: 5,
+      onError
+    });
+    return gateway
+      .start()
+      .then(() => {
+        const changed = new Promise<GraphQLSchema>(resolve =>
+          gateway.onSchemaChange(resolve)
+        );
+        service.typeDefs = userTypeDefsWithEmail;
+        return changed;
+      })
+      .then(schema => {
+        gateway.stop();
+        expect(getUserFields(schema)).toEqual(["id", "name", "email"]);
+        expect(onError).not.toHaveBeenCalled();
+      });
+  });
+});
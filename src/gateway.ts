@@ -0,0 +1,268 @@
+import {
+  DocumentNode,
+  ExecutionResult,
+  GraphQLSchema,
+  print,
+  printSchema,
+  validateSchema
+} from "graphql";
+import { makeRemoteExecutableSchema } from "graphql-tools";
+import { flatten } from "lodash";
+import {
+  mergeRemoteSchemas,
+  MergeRemoteSchemasOptions
+} from "./merge-remote-schemas";
+import { SubschemaConfig } from "./subschema-config";
+
+type Fetcher = (operation: {
+  query: DocumentNode;
+  operationName?: string;
+  variables?: { [key: string]: any };
+  context?: any;
+}) => Promise<ExecutionResult>;
+
+// A service whose schema is loaded again whenever the gateway reloads, e.g. by
+// introspecting the service or by fetching its SDL. Loaded schemas are sent
+// requests through the fetcher when there is one, and are expected to be
+// executable otherwise.
+export interface SubschemaSource
+  extends Pick<
+    SubschemaConfig,
+    | "name"
+    | "merge"
+    | "transforms"
+    | "priority"
+    | "onFailure"
+    | "timeout"
+    | "transformContext"
+    | "transformRequest"
+  > {
+  load: () => GraphQLSchema | string | Promise<GraphQLSchema | string>;
+  fetcher?: Fetcher;
+}
+
+export interface GatewayOptions
+  extends Pick<
+    MergeRemoteSchemasOptions,
+    | "localSchema"
+    | "merge"
+    | "scalars"
+    | "routing"
+    | "instrumentation"
+    | "cache"
+    | "cacheScope"
+    | "onConflict"
+    | "onTypeConflict"
+    | "onFieldConflict"
+  > {
+  sources: SubschemaSource[];
+  // Reloads every source this many milliseconds after the last reload ended.
+  pollInterval?: number;
+  // Called with errors of reloads started by polling, as there's no one else to
+  // report them to.
+  onError?: (error: Error) => void;
+}
+
+export interface Gateway {
+  getSchema(): GraphQLSchema;
+  // Loads every source and composes the first schema.
+  start(): Promise<GraphQLSchema>;
+  // Reloads the named sources, or all of them, and recomposes the schema if
+  // any of them changed. The last good schema is kept when this fails.
+  reload(sourceNames?: string[]): Promise<GraphQLSchema>;
+  stop(): void;
+  onSchemaChange(listener: (schema: GraphQLSchema) => void): () => void;
+}
+
+interface LoadedSource {
+  sdl: string;
+  subschema: SubschemaConfig;
+}
+
+export function createGateway({
+  sources,
+  pollInterval,
+  onError,
+  ...mergeOptions
+}: GatewayOptions): Gateway {
+  const loadedSources = new Map<string, LoadedSource>();
+  const listeners = new Set<(schema: GraphQLSchema) => void>();
+  let schema: GraphQLSchema | undefined;
+  // Reloads run one after the other, so a slow reload can't replace the
+  // schema composed by a later one.
+  let pendingReload: Promise<any> = Promise.resolve();
+  let pollTimer: ReturnType<typeof setTimeout> | undefined;
+  let started: Promise<GraphQLSchema> | undefined;
+  // Each start begins a new poll loop, and loops that were stopped end once
+  // their reload is done.
+  let pollLoop = 0;
+
+  const update = (sourceNames?: string[]) => {
+    const sourcesToLoad = sourceNames
+      ? sourceNames.map(name => findSource(sources, name))
+      : sources;
+    return Promise.all(sourcesToLoad.map(loadSource)).then(loaded => {
+      const changedSources = loaded.filter(({ subschema, sdl }) => {
+        const previous = loadedSources.get(subschema.name);
+        return !previous || previous.sdl !== sdl;
+      });
+      if (schema && changedSources.length === 0) {
+        return schema;
+      }
+      const nextSources = new Map(loadedSources);
+      for (const source of changedSources) {
+        nextSources.set(source.subschema.name, source);
+      }
+      const nextSchema = compose(
+        sources.map(({ name }) => nextSources.get(name)!.subschema),
+        mergeOptions
+      );
+      for (const source of changedSources) {
+        loadedSources.set(source.subschema.name, source);
+      }
+      schema = nextSchema;
+      listeners.forEach(listener => listener(nextSchema));
+      return nextSchema;
+    });
+  };
+
+  const reload = (sourceNames?: string[]): Promise<GraphQLSchema> => {
+    const result = pendingReload.then(() => update(sourceNames));
+    pendingReload = result.catch(() => undefined);
+    return result;
+  };
+
+  const poll = (loop: number) => {
+    pollTimer = setTimeout(() => {
+      reload()
+        .catch(error => {
+          if (onError) {
+            onError(error);
+          }
+        })
+        .then(() => {
+          if (loop === pollLoop) {
+            poll(loop);
+          }
+        });
+    }, pollInterval);
+  };
+
+  return {
+    getSchema() {
+      if (!schema) {
+        throw new Error("The gateway hasn't composed a schema yet");
+      }
+      return schema;
+    },
+    start() {
+      if (!started) {
+        const loop = ++pollLoop;
+        started = reload().then(
+          firstSchema => {
+            if (pollInterval !== undefined && loop === pollLoop) {
+              poll(loop);
+            }
+            return firstSchema;
+          },
+          error => {
+            if (loop === pollLoop) {
+              started = undefined;
+            }
+            throw error;
+          }
+        );
+      }
+      return started;
+    },
+    reload(sourceNames?: string[]) {
+      if (!schema) {
+        return Promise.reject(
+          new Error("The gateway has to be started before it's reloaded")
+        );
+      }
+      return reload(sourceNames);
+    },
+    stop() {
+      started = undefined;
+      pollLoop++;
+      if (pollTimer) {
+        clearTimeout(pollTimer);
+        pollTimer = undefined;
+      }
+    },
+    onSchemaChange(listener: (schema: GraphQLSchema) => void) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    }
+  };
+}
+
+function findSource(sources: SubschemaSource[], name: string) {
+  const source = sources.find(candidate => candidate.name === name);
+  if (!source) {
+    throw new Error(`There's no source named ${name}`);
+  }
+  return source;
+}
+
+function loadSource({
+  load,
+  fetcher,
+  ...config
+}: SubschemaSource): Promise<LoadedSource> {
+  return Promise.resolve()
+    .then(load)
+    .then(loaded => {
+      if (typeof loaded === "string" && !fetcher) {
+        throw new Error(
+          "it returned SDL, but has no fetcher to send requests to"
+        );
+      }
+      return {
+        sdl: typeof loaded === "string" ? loaded : printSchemaSource(loaded),
+        subschema: {
+          ...config,
+          schema: fetcher
+            ? makeRemoteExecutableSchema({ schema: loaded, fetcher })
+            : (loaded as GraphQLSchema)
+        }
+      };
+    })
+    .catch(error => {
+      throw new Error(`Can't load source ${config.name}: ${error.message}`);
+    });
+}
+
+// printSchema leaves out directives applied to types and fields, such as merge
+// and cache hints, so they're compared by printing the types' AST nodes too.
+function printSchemaSource(schema: GraphQLSchema) {
+  const astNodes = flatten(
+    Object.values(schema.getTypeMap()).map(type => [
+      type.astNode,
+      ...(type.extensionASTNodes || [])
+    ])
+  );
+  return [
+    printSchema(schema),
+    ...astNodes.map(node => (node ? print(node) : ""))
+  ].join("\n");
+}
+
+function compose(
+  subschemas: SubschemaConfig[],
+  options: MergeRemoteSchemasOptions
+) {
+  const schema = mergeRemoteSchemas({ ...options, subschemas });
+  const errors = validateSchema(schema);
+  if (errors.length > 0) {
+    throw new Error(
+      `The composed schema is invalid: ${errors
+        .map(({ message }) => message)
+        .join(", ")}`
+    );
+  }
+  return schema;
+}
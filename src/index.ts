@@ -1,2 +1,65 @@
-
-export { mergeRemoteSchemas } from "./merge-remote-schemas";
+export {
+  CompositionReport,
+  FieldReport,
+  MergeLookupReport,
+  printAnnotatedSchema,
+  SkippedTypeReport,
+  TypeReport
+} from "./composition-report";
+export { CacheStore, createInMemoryCacheStore } from "./entity-cache";
+export {
+  FailurePolicy,
+  FailureResolver,
+  SubschemaTimeoutError
+} from "./failure-policy";
+export { createFederatedSubschema } from "./federation";
+export {
+  createGateway,
+  Gateway,
+  GatewayOptions,
+  SubschemaSource
+} from "./gateway";
+export {
+  DelegationEndEvent,
+  DelegationErrorEvent,
+  DelegationEvent,
+  Instrumentation
+} from "./instrumentation";
+export {
+  FieldCandidate,
+  FieldConflictResolver,
+  firstWins,
+  highestPriority,
+  lastWins,
+  MergeConflict,
+  MergeConflictError,
+  preferMergeQueryOwner,
+  schemaPriority,
+  TypeCandidate,
+  TypeConflictResolver
+} from "./merge-conflicts";
+export {
+  mergeHintTypeDefs,
+  MergeTypeConfig,
+  MergeTypeConfigMap
+} from "./merge-hints";
+export {
+  mergeRemoteSchemas,
+  mergeRemoteSchemasWithReport
+} from "./merge-remote-schemas";
+export {
+  createQueryCostRule,
+  estimateQueryCost,
+  QueryCost,
+  QueryCostOptions
+} from "./query-cost";
+export { RootFieldRouter, RootFieldRoutingMap } from "./root-field-routing";
+export { SubschemaConfig } from "./subschema-config";
+export {
+  createHideTransform,
+  createNamespaceTransform,
+  createRenameRootFieldsTransform,
+  createRenameTypesTransform,
+  RootFieldRenames,
+  TypeRenames
+} from "./transforms";
@@ -0,0 +1,75 @@
+import { GraphQLResolveInfo, OperationTypeNode } from "graphql";
+import { isForwardedErrors } from "./forward-errors";
+
+export interface DelegationEvent {
+  subschema: string;
+  operation: OperationTypeNode;
+  // The root field, or the merge query a merged type is looked up with.
+  fieldName: string;
+  kind: "root" | "merge";
+  args: { [key: string]: any };
+  context: any;
+  // Info of the field that was resolved, or of the first field in the batch
+  // for batched merge queries.
+  info: GraphQLResolveInfo;
+}
+
+export interface DelegationEndEvent extends DelegationEvent {
+  duration: number;
+  result: any;
+}
+
+export interface DelegationErrorEvent extends DelegationEvent {
+  duration: number;
+  error: Error;
+}
+
+// Hooks called around every request sent to a subschema. Whatever `start`
+// returns, e.g. a span, is passed on to `end` or `error`.
+export interface Instrumentation {
+  start?: (event: DelegationEvent) => any;
+  end?: (event: DelegationEndEvent, started: any) => void;
+  error?: (event: DelegationErrorEvent, started: any) => void;
+}
+
+export function instrumentDelegation<T>(
+  instrumentation: Instrumentation | undefined,
+  event: DelegationEvent,
+  delegate: () => Promise<T>
+): Promise<T> {
+  if (!instrumentation) {
+    return delegate();
+  }
+  const startTime = Date.now();
+  const started = instrumentation.start
+    ? instrumentation.start(event)
+    : undefined;
+  const reportError = (error: Error) => {
+    if (instrumentation.error) {
+      instrumentation.error(
+        { ...event, duration: Date.now() - startTime, error },
+        started
+      );
+    }
+  };
+  return delegate().then(
+    result => {
+      // The subschema returned errors instead of a value.
+      if (isForwardedErrors(result)) {
+        reportError(
+          new Error(result.errors.map(({ message }) => message).join("\n"))
+        );
+      } else if (instrumentation.end) {
+        instrumentation.end(
+          { ...event, duration: Date.now() - startTime, result },
+          started
+        );
+      }
+      return result;
+    },
+    error => {
+      reportError(error);
+      throw error;
+    }
+  );
+}
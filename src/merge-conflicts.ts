@@ -0,0 +1,331 @@
+import {
+  getNullableType,
+  GraphQLArgument,
+  GraphQLDirective,
+  GraphQLField,
+  GraphQLInputField,
+  GraphQLInputObjectType,
+  GraphQLInterfaceType,
+  GraphQLNamedType,
+  GraphQLObjectType,
+  GraphQLSchema,
+  isInputObjectType,
+  isNonNullType
+} from "graphql";
+import { flatten } from "lodash";
+import { MergeHint } from "./merge-hints";
+import { SubschemaConfig } from "./subschema-config";
+
+export interface TypeCandidate {
+  subschema: SubschemaConfig;
+  schema: GraphQLSchema;
+  type: GraphQLNamedType;
+  mergeHint?: MergeHint;
+}
+
+export interface FieldCandidate {
+  subschema: SubschemaConfig;
+  schema: GraphQLSchema;
+  field: GraphQLField<any, any>;
+  mergeHint?: MergeHint;
+}
+
+export type TypeConflictResolver = (
+  candidates: TypeCandidate[],
+  info: { typeName: string }
+) => TypeCandidate;
+
+export type FieldConflictResolver = (
+  candidates: FieldCandidate[],
+  info: { typeName: string; fieldName: string }
+) => FieldCandidate;
+
+export function firstWins<T>(candidates: T[]): T {
+  return candidates[0];
+}
+
+export function lastWins<T>(candidates: T[]): T {
+  return candidates[candidates.length - 1];
+}
+
+export function schemaPriority(schemas: Array<GraphQLSchema | string>) {
+  const rank = ({
+    schema,
+    subschema
+  }: {
+    schema: GraphQLSchema;
+    subschema: SubschemaConfig;
+  }) => {
+    const index = schemas.findIndex(
+      entry => entry === schema || entry === subschema.name
+    );
+    return index === -1 ? schemas.length : index;
+  };
+  return <T extends { schema: GraphQLSchema; subschema: SubschemaConfig }>(
+    candidates: T[]
+  ): T =>
+    candidates.reduce((winner, candidate) =>
+      rank(candidate) < rank(winner) ? candidate : winner
+    );
+}
+
+export function highestPriority<T extends { subschema: SubschemaConfig }>(
+  candidates: T[]
+): T {
+  const priority = ({ subschema }: T) => subschema.priority || 0;
+  return candidates.reduce((winner, candidate) =>
+    priority(candidate) > priority(winner) ? candidate : winner
+  );
+}
+
+export function preferMergeQueryOwner<
+  T extends { schema: GraphQLSchema; mergeHint?: MergeHint }
+>(candidates: T[]): T {
+  const owner = candidates.find(({ schema, mergeHint }) => {
+    const queryType = schema.getQueryType();
+    return Boolean(
+      mergeHint && queryType && queryType.getFields()[mergeHint.fieldName]
+    );
+  });
+  return owner || candidates[0];
+}
+
+export interface MergeConflict {
+  typeName: string;
+  fieldName: string;
+  schemas: GraphQLSchema[];
+  subschemas: string[];
+  reasons: string[];
+}
+
+export class MergeConflictError extends Error {
+  public conflicts: MergeConflict[];
+
+  constructor(conflicts: MergeConflict[]) {
+    super(
+      [
+        `Found ${conflicts.length} conflicting field definition${
+          conflicts.length === 1 ? "" : "s"
+        }:`,
+        ...conflicts.map(
+          ({ typeName, fieldName, reasons }) =>
+            `  ${typeName}.${fieldName}: ${reasons.join("; ")}`
+        )
+      ].join("\n")
+    );
+    this.name = "MergeConflictError";
+    this.conflicts = conflicts;
+  }
+}
+
+type TypeAndSchemaArray = Array<{
+  subschema: SubschemaConfig;
+  schema: GraphQLSchema;
+  type: GraphQLObjectType | GraphQLInterfaceType | GraphQLInputObjectType;
+}>;
+
+type FieldAndSchemaArray = Array<{
+  subschema: SubschemaConfig;
+  schema: GraphQLSchema;
+  field: GraphQLField<any, any>;
+}>;
+
+export function findMergeConflicts(
+  types: TypeAndSchemaArray[]
+): MergeConflict[] {
+  const conflicts: MergeConflict[] = [];
+  for (const candidates of types) {
+    if (candidates.every(({ type }) => isInputObjectType(type))) {
+      conflicts.push(...findInputFieldConflicts(candidates));
+      continue;
+    }
+    const fields: { [key: string]: FieldAndSchemaArray } = {};
+    for (const { type, schema, subschema } of candidates) {
+      for (const [key, field] of Object.entries(
+        (type as GraphQLObjectType | GraphQLInterfaceType).getFields()
+      )) {
+        if (!fields[key]) {
+          fields[key] = [];
+        }
+        fields[key].push({ subschema, schema, field });
+      }
+    }
+    for (const [key, fieldCandidates] of Object.entries(fields)) {
+      const reasons = findFieldConflictReasons(fieldCandidates);
+      if (reasons.length > 0) {
+        conflicts.push({
+          typeName: candidates[0].type.name,
+          fieldName: key,
+          schemas: fieldCandidates.map(({ schema }) => schema),
+          subschemas: fieldCandidates.map(({ subschema }) => subschema.name),
+          reasons
+        });
+      }
+    }
+  }
+  return conflicts;
+}
+
+function findFieldConflictReasons(candidates: FieldAndSchemaArray) {
+  const reasons: string[] = [];
+  if (candidates.length < 2) {
+    return reasons;
+  }
+  const [first, ...others] = candidates;
+  const firstName = first.subschema.name;
+  for (const other of others) {
+    const otherName = other.subschema.name;
+    if (String(first.field.type) !== String(other.field.type)) {
+      reasons.push(
+        `returns ${first.field.type} in ${firstName} but ${other.field.type} in ${otherName}`
+      );
+    }
+    const argNames = new Set([
+      ...first.field.args.map(arg => arg.name),
+      ...other.field.args.map(arg => arg.name)
+    ]);
+    for (const argName of argNames) {
+      const firstArg = first.field.args.find(arg => arg.name === argName);
+      const otherArg = other.field.args.find(arg => arg.name === argName);
+      if (!firstArg || !otherArg) {
+        reasons.push(
+          `argument ${argName} is missing in ${
+            firstArg ? otherName : firstName
+          }`
+        );
+      } else if (String(firstArg.type) !== String(otherArg.type)) {
+        reasons.push(
+          `argument ${argName} has type ${firstArg.type} in ${firstName} but ${otherArg.type} in ${otherName}`
+        );
+      }
+    }
+  }
+  return reasons;
+}
+
+// Directive definitions are compared argument by argument. Conflicts are
+// reported with the directive name, e.g. "@auth", as the type name and the
+// argument name as the field name.
+export function findDirectiveConflicts(
+  directives: Array<
+    Array<{
+      subschema: SubschemaConfig;
+      schema: GraphQLSchema;
+      directive: GraphQLDirective;
+    }>
+  >
+): MergeConflict[] {
+  const conflicts: MergeConflict[] = [];
+  for (const candidates of directives) {
+    const argNames = new Set(
+      flatten(
+        candidates.map(({ directive }) => directive.args.map(arg => arg.name))
+      )
+    );
+    for (const argName of argNames) {
+      const args = candidates.map(({ directive }) =>
+        directive.args.find(arg => arg.name === argName)
+      );
+      const reasons = findDirectiveArgumentConflictReasons(candidates, args);
+      if (reasons.length > 0) {
+        conflicts.push({
+          typeName: `@${candidates[0].directive.name}`,
+          fieldName: argName,
+          schemas: candidates.map(({ schema }) => schema),
+          subschemas: candidates.map(({ subschema }) => subschema.name),
+          reasons
+        });
+      }
+    }
+  }
+  return conflicts;
+}
+
+function findDirectiveArgumentConflictReasons(
+  candidates: Array<{ subschema: SubschemaConfig }>,
+  args: Array<GraphQLArgument | undefined>
+) {
+  const reasons: string[] = [];
+  const firstIndex = args.findIndex(arg => !!arg);
+  const first = args[firstIndex]!;
+  const firstName = candidates[firstIndex].subschema.name;
+  args.forEach((arg, index) => {
+    const name = candidates[index].subschema.name;
+    if (!arg) {
+      reasons.push(`is missing in ${name}`);
+    } else if (String(first.type) !== String(arg.type)) {
+      reasons.push(
+        `has type ${first.type} in ${firstName} but ${arg.type} in ${name}`
+      );
+    }
+  });
+  return reasons;
+}
+
+function findInputFieldConflicts(
+  candidates: TypeAndSchemaArray
+): MergeConflict[] {
+  const conflicts: MergeConflict[] = [];
+  const fieldNames = new Set(
+    flatten(
+      candidates.map(({ type }) =>
+        Object.keys((type as GraphQLInputObjectType).getFields())
+      )
+    )
+  );
+  for (const fieldName of fieldNames) {
+    const fields = candidates.map(
+      ({ type }) => (type as GraphQLInputObjectType).getFields()[fieldName]
+    );
+    const reasons = findInputFieldConflictReasons(candidates, fields);
+    if (reasons.length > 0) {
+      conflicts.push({
+        typeName: candidates[0].type.name,
+        fieldName,
+        schemas: candidates.map(({ schema }) => schema),
+        subschemas: candidates.map(({ subschema }) => subschema.name),
+        reasons
+      });
+    }
+  }
+  return conflicts;
+}
+
+function findInputFieldConflictReasons(
+  candidates: TypeAndSchemaArray,
+  fields: Array<GraphQLInputField | undefined>
+) {
+  const reasons: string[] = [];
+  const isRequired = (field: GraphQLInputField) =>
+    isNonNullType(field.type) && field.defaultValue === undefined;
+  const requiredIndex = fields.findIndex(field => !!field && isRequired(field));
+  const firstIndex = fields.findIndex(field => !!field);
+  const first = fields[firstIndex]!;
+  const firstName = candidates[firstIndex].subschema.name;
+  fields.forEach((field, index) => {
+    const name = candidates[index].subschema.name;
+    if (!field) {
+      if (requiredIndex !== -1) {
+        reasons.push(
+          `is required in ${candidates[requiredIndex].subschema.name} but missing in ${name}`
+        );
+      }
+    } else if (index !== firstIndex) {
+      if (
+        String(getNullableType(first.type)) !==
+        String(getNullableType(field.type))
+      ) {
+        reasons.push(
+          `has type ${first.type} in ${firstName} but ${field.type} in ${name}`
+        );
+      } else if (isRequired(first) !== isRequired(field)) {
+        reasons.push(
+          isRequired(first)
+            ? `is required in ${firstName} but optional in ${name}`
+            : `is required in ${name} but optional in ${firstName}`
+        );
+      }
+    }
+  });
+  return reasons;
+}
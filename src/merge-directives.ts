@@ -0,0 +1,25 @@
+import { DirectiveNode } from "graphql";
+import { flatten, uniqBy } from "lodash";
+
+interface NodeWithDirectives {
+  readonly directives?: ReadonlyArray<DirectiveNode>;
+}
+
+// Directive usages are kept on the AST nodes of the merged schema. The first
+// node is used for the merged definition, with the directives used on every
+// candidate added to it. Directives used by several services are taken from
+// the first one.
+export function mergeDirectiveUsages<T extends NodeWithDirectives>(
+  nodes: Array<T | null | undefined>
+): T | undefined {
+  const definedNodes = nodes.filter(node => node) as T[];
+  if (definedNodes.length < 2) {
+    return definedNodes[0];
+  }
+  return Object.assign({}, definedNodes[0], {
+    directives: uniqBy(
+      flatten(definedNodes.map(node => node.directives || [])),
+      directive => directive.name.value
+    )
+  });
+}
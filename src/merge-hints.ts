@@ -0,0 +1,299 @@
+import {
+  DirectiveNode,
+  getNamedType,
+  getNullableType,
+  GraphQLNamedType,
+  GraphQLObjectType,
+  GraphQLSchema,
+  isAbstractType,
+  isListType,
+  isUnionType,
+  Kind,
+  OperationDefinitionNode,
+  parse,
+  SelectionSetNode,
+  valueFromASTUntyped
+} from "graphql";
+import { camelCase } from "lodash";
+import { getKeyFieldValue } from "./add-key-fields";
+
+export const mergeHintTypeDefs = `
+  directive @key(fields: String!) on OBJECT
+  directive @mergeQuery(
+    field: String!
+    keyArg: String
+    batchField: String
+  ) on OBJECT
+  directive @requires(fields: String!) on FIELD_DEFINITION
+`;
+
+export interface MergeTypeConfig {
+  fieldName?: string;
+  key?: string;
+  keyArg?: string;
+  batchFieldName?: string;
+  requires?: { [fieldName: string]: string };
+  // Seconds that looked up fields of the type can be cached for, when the
+  // merged schema has a cache.
+  maxAge?: number;
+}
+
+export interface MergeTypeConfigMap {
+  [typeName: string]: MergeTypeConfig;
+}
+
+export interface MergeHint {
+  fieldName: string;
+  key: SelectionSetNode;
+  keyArg?: string;
+  batchFieldName?: string;
+  batchArg?: string;
+  requires: { [fieldName: string]: SelectionSetNode };
+  // Set for federated entities, whose representations include their type name.
+  typename?: string;
+  maxAge?: number;
+  fieldMaxAges: { [fieldName: string]: number };
+}
+
+export function getMergeHint(
+  type: GraphQLObjectType,
+  schema: GraphQLSchema,
+  config: MergeTypeConfig = {}
+): MergeHint {
+  const keyDirective = findDirective(type, "key");
+  const mergeQueryDirective = findDirective(type, "mergeQuery");
+
+  const key =
+    config.key ||
+    (keyDirective && getDirectiveArgument(keyDirective, "fields")) ||
+    "id";
+  const fieldName =
+    config.fieldName ||
+    (mergeQueryDirective && getDirectiveArgument(mergeQueryDirective, "field"));
+  const keyArg =
+    config.keyArg ||
+    (mergeQueryDirective &&
+      getDirectiveArgument(mergeQueryDirective, "keyArg"));
+  const batchFieldName =
+    config.batchFieldName ||
+    (mergeQueryDirective &&
+      getDirectiveArgument(mergeQueryDirective, "batchField"));
+
+  if (!fieldName && !batchFieldName && isEntity(type, schema)) {
+    return {
+      fieldName: "_entities",
+      key: parseKey(key),
+      requires: getRequiredFields(type, config.requires),
+      batchFieldName: "_entities",
+      batchArg: "representations",
+      typename: type.name,
+      ...getCacheHints(type, config.maxAge)
+    };
+  }
+  return {
+    fieldName: fieldName || camelCase(type.name),
+    key: parseKey(key),
+    keyArg,
+    requires: getRequiredFields(type, config.requires),
+    ...getBatchField(
+      type,
+      schema,
+      batchFieldName || `${camelCase(type.name)}s`,
+      // Named batched queries are only checked on the subschemas that own the
+      // merge query, as top-level config also applies to the others.
+      !batchFieldName ||
+        !hasQueryField(schema, fieldName || camelCase(type.name))
+    ),
+    ...getCacheHints(type, config.maxAge)
+  };
+}
+
+// Cache hints are read from `@cacheControl(maxAge: Int)` directives on the type
+// and its fields, and the configured maxAge takes precedence over the type's.
+function getCacheHints(type: GraphQLObjectType, maxAge?: number) {
+  const getMaxAge = (node: DirectiveHolder) => {
+    const directive = findDirective(node, "cacheControl");
+    return directive && getDirectiveArgument(directive, "maxAge");
+  };
+  const fieldMaxAges: { [fieldName: string]: number } = {};
+  for (const field of Object.values(type.getFields())) {
+    const fieldMaxAge = getMaxAge(field);
+    if (fieldMaxAge !== undefined) {
+      fieldMaxAges[field.name] = Number(fieldMaxAge);
+    }
+  }
+  const typeMaxAge = maxAge === undefined ? getMaxAge(type) : maxAge;
+  return {
+    maxAge: typeMaxAge === undefined ? undefined : Number(typeMaxAge),
+    fieldMaxAges
+  };
+}
+
+function hasQueryField(schema: GraphQLSchema, fieldName: string) {
+  const queryType = schema.getQueryType();
+  return Boolean(queryType && queryType.getFields()[fieldName]);
+}
+
+// Federated services look up every entity with `_entities`, which returns
+// the `_Entity` union of all entity types.
+function isEntity(type: GraphQLObjectType, schema: GraphQLSchema) {
+  const queryType = schema.getQueryType();
+  const field = queryType && queryType.getFields()._entities;
+  const entityType = field && getNamedType(field.type);
+  return (
+    isUnionType(entityType) &&
+    entityType.getTypes().some(({ name }) => name === type.name)
+  );
+}
+
+function getRequiredFields(
+  type: GraphQLObjectType,
+  requires: { [fieldName: string]: string } = {}
+) {
+  const requiredFields: { [fieldName: string]: SelectionSetNode } = {};
+  for (const field of Object.values(type.getFields())) {
+    const directive =
+      field.astNode &&
+      field.astNode.directives &&
+      field.astNode.directives.find(d => d.name.value === "requires");
+    const fieldsArg =
+      requires[field.name] ||
+      (directive && getDirectiveArgument(directive, "fields"));
+    if (fieldsArg) {
+      requiredFields[field.name] = parseKey(fieldsArg);
+    }
+  }
+  return requiredFields;
+}
+
+// Fields that require other fields of their parent are looked up with the
+// values of the required fields added to the key.
+export function addRequiredFields(
+  mergeHint: MergeHint,
+  requires: SelectionSetNode
+): MergeHint {
+  return {
+    ...mergeHint,
+    key: {
+      ...mergeHint.key,
+      selections: [...mergeHint.key.selections, ...requires.selections]
+    }
+  };
+}
+
+export function getBatchKey(parent: any, { key, keyArg, typename }: MergeHint) {
+  const keyValue = getKeyValue(parent, key);
+  if (typename) {
+    return { __typename: typename, ...keyValue };
+  }
+  const keyFieldNames = Object.keys(keyValue);
+  return keyArg || keyFieldNames.length > 1
+    ? keyValue
+    : keyValue[keyFieldNames[0]];
+}
+
+export function getKeyValue(parent: any, key: SelectionSetNode): any {
+  if (parent === null || parent === undefined) {
+    return parent;
+  }
+  if (Array.isArray(parent)) {
+    return parent.map(item => getKeyValue(item, key));
+  }
+  const value: { [key: string]: any } = {};
+  for (const selection of key.selections) {
+    if (selection.kind === Kind.FIELD) {
+      const name = selection.name.value;
+      value[name] = selection.selectionSet
+        ? getKeyValue(getKeyFieldValue(parent, name), selection.selectionSet)
+        : getKeyFieldValue(parent, name);
+    }
+  }
+  return value;
+}
+
+export function createMergeArgs(parent: any, { key, keyArg }: MergeHint) {
+  const keyValue = getKeyValue(parent, key);
+  return keyArg ? { [keyArg]: keyValue } : keyValue;
+}
+
+function getBatchField(
+  type: GraphQLObjectType,
+  schema: GraphQLSchema,
+  fieldName: string,
+  optional: boolean
+) {
+  const queryType = schema.getQueryType();
+  const field = queryType && queryType.getFields()[fieldName];
+  if (!field) {
+    if (!optional) {
+      throw new Error(
+        `Batched merge query ${fieldName} for type ${type.name} doesn't exist`
+      );
+    }
+    return {};
+  }
+  const returnType = getNullableType(field.type);
+  if (
+    field.args.length !== 1 ||
+    !isListType(getNullableType(field.args[0].type)) ||
+    !isListType(returnType) ||
+    !isPossibleType(schema, getNamedType(returnType), type)
+  ) {
+    if (!optional) {
+      throw new Error(
+        `Batched merge query ${fieldName} for type ${type.name} must take a single list argument and return a list of ${type.name}`
+      );
+    }
+    return {};
+  }
+  return { batchFieldName: fieldName, batchArg: field.args[0].name };
+}
+
+// Merge queries can return the type itself, or an interface or union that
+// includes it.
+function isPossibleType(
+  schema: GraphQLSchema,
+  returnType: GraphQLNamedType,
+  type: GraphQLObjectType
+) {
+  return (
+    returnType === type ||
+    (isAbstractType(returnType) && schema.isPossibleType(returnType, type))
+  );
+}
+
+export function parseKey(fields: string): SelectionSetNode {
+  const document = parse(`{ ${fields} }`, { noLocation: true });
+  return (document.definitions[0] as OperationDefinitionNode).selectionSet;
+}
+
+interface DirectiveHolder {
+  astNode?: { directives?: ReadonlyArray<DirectiveNode> } | null;
+  extensionASTNodes?: ReadonlyArray<{
+    directives?: ReadonlyArray<DirectiveNode>;
+  }> | null;
+}
+
+function findDirective(type: DirectiveHolder, name: string) {
+  const nodes = [type.astNode, ...(type.extensionASTNodes || [])];
+  for (const node of nodes) {
+    const directive =
+      node &&
+      node.directives &&
+      node.directives.find(d => d.name.value === name);
+    if (directive) {
+      return directive;
+    }
+  }
+  return undefined;
+}
+
+function getDirectiveArgument(
+  directive: DirectiveNode,
+  name: string
+): string | undefined {
+  const argument = (directive.arguments || []).find(
+    arg => arg.name.value === name
+  );
+  return argument ? valueFromASTUntyped(argument.value) : undefined;
+}
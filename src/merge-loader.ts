@@ -0,0 +1,385 @@
+import { FieldNode, GraphQLResolveInfo, Kind, print } from "graphql";
+import { delegateToSchema, Transform } from "graphql-tools";
+import {
+  EntityCache,
+  getCacheKey,
+  getCacheMaxAge,
+  isCacheable
+} from "./entity-cache";
+import { withTimeout } from "./failure-policy";
+import {
+  createForwardErrorsTransform,
+  isForwardedErrors,
+  splitForwardedErrors
+} from "./forward-errors";
+import {
+  DelegationEvent,
+  Instrumentation,
+  instrumentDelegation
+} from "./instrumentation";
+import { createMergeArgs, getBatchKey, MergeHint } from "./merge-hints";
+import {
+  createSubschemaRequest,
+  getSubschemaContext,
+  SubschemaConfig
+} from "./subschema-config";
+
+interface MergeLookup {
+  parent: any;
+  info: GraphQLResolveInfo;
+  fieldNodes: FieldNode[];
+  promise: Promise<any>;
+  resolve: (result: any) => void;
+  reject: (error: any) => void;
+}
+
+interface MergeBatch {
+  subschema: SubschemaConfig;
+  mergeHint: MergeHint;
+  context: any;
+  transforms: Transform[];
+  instrumentation?: Instrumentation;
+  cache?: EntityCache;
+  lookups: Map<any, MergeLookup>;
+}
+
+const pendingBatches = new WeakMap<object, Map<MergeHint, MergeBatch>>();
+
+export function loadMergedFields({
+  subschema,
+  mergeHint,
+  parent,
+  context,
+  info,
+  transforms,
+  instrumentation,
+  cache
+}: {
+  subschema: SubschemaConfig;
+  mergeHint: MergeHint;
+  parent: any;
+  context: any;
+  info: GraphQLResolveInfo;
+  transforms: Transform[];
+  instrumentation?: Instrumentation;
+  cache?: EntityCache;
+}): Promise<any> {
+  const requestKey =
+    context && typeof context === "object" ? context : info.operation;
+  let batches = pendingBatches.get(requestKey);
+  if (!batches) {
+    batches = new Map();
+    pendingBatches.set(requestKey, batches);
+  }
+  let batch = batches.get(mergeHint);
+  if (!batch) {
+    batch = {
+      subschema,
+      mergeHint,
+      context,
+      transforms,
+      instrumentation,
+      cache,
+      lookups: new Map()
+    };
+    batches.set(mergeHint, batch);
+    scheduleBatch(batches, batch);
+  }
+  let lookup = batch.lookups.get(parent);
+  if (!lookup) {
+    lookup = createLookup(parent, info);
+    batch.lookups.set(parent, lookup);
+  }
+  lookup.fieldNodes.push(...info.fieldNodes);
+  return lookup.promise;
+}
+
+function createLookup(parent: any, info: GraphQLResolveInfo): MergeLookup {
+  let resolve!: (result: any) => void;
+  let reject!: (error: any) => void;
+  const promise = new Promise((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { parent, info, fieldNodes: [], promise, resolve, reject };
+}
+
+function scheduleBatch(batches: Map<MergeHint, MergeBatch>, batch: MergeBatch) {
+  Promise.resolve().then(() => {
+    batches.delete(batch.mergeHint);
+    dispatchBatch(batch);
+  });
+}
+
+function dispatchBatch(batch: MergeBatch) {
+  const lookups = Array.from(batch.lookups.values());
+  if (batch.cache) {
+    loadCachedLookups(batch, batch.cache, lookups)
+      .then(uncachedLookups => delegateLookups(batch, uncachedLookups))
+      .catch(error => lookups.forEach(lookup => lookup.reject(error)));
+  } else {
+    delegateLookups(batch, lookups);
+  }
+}
+
+// Lookups found in the cache are resolved right away, and the results of the
+// others are cached once they're loaded. Errors of the store count as misses.
+function loadCachedLookups(
+  batch: MergeBatch,
+  { store, scope }: EntityCache,
+  lookups: MergeLookup[]
+): Promise<MergeLookup[]> {
+  return Promise.all(
+    lookups.map(lookup => {
+      const maxAge = getCacheMaxAge(batch.mergeHint, lookup.fieldNodes);
+      if (maxAge === undefined) {
+        return lookup;
+      }
+      let key: string;
+      return Promise.resolve()
+        .then(() => {
+          key = getCacheKey(
+            batch.subschema.name,
+            lookup.info.parentType.name,
+            getBatchKey(lookup.parent, batch.mergeHint),
+            lookup.fieldNodes,
+            lookup.info,
+            scope ? scope(batch.context) : undefined
+          );
+          return store.get(key);
+        })
+        .then(
+          cached => {
+            if (cached !== undefined) {
+              lookup.resolve(cached);
+              return undefined;
+            }
+            lookup.promise
+              .then(result =>
+                isCacheable(result) ? store.set(key, result, maxAge) : undefined
+              )
+              .catch(() => undefined);
+            return lookup;
+          },
+          () => lookup
+        );
+    })
+  ).then(results => results.filter(Boolean) as MergeLookup[]);
+}
+
+function delegateLookups(batch: MergeBatch, lookups: MergeLookup[]) {
+  if (lookups.length === 0) {
+    return;
+  }
+  if (!batch.mergeHint.batchFieldName) {
+    for (const lookup of lookups) {
+      delegateLookup(batch, lookup).then(lookup.resolve, lookup.reject);
+    }
+    return;
+  }
+  const groups = new Map<string, MergeLookup[]>();
+  for (const lookup of lookups) {
+    const selection = lookup.fieldNodes.map(node => print(node)).join(" ");
+    groups.set(selection, [...(groups.get(selection) || []), lookup]);
+  }
+  for (const group of groups.values()) {
+    delegateBatchedLookups(batch, group);
+  }
+}
+
+function delegateLookup(
+  batch: MergeBatch,
+  { parent, info, fieldNodes }: MergeLookup
+) {
+  const args = createMergeArgs(parent, batch.mergeHint);
+  return getSubschemaContext(batch.subschema, batch.context, info).then(
+    context =>
+      instrumentDelegation(
+        batch.instrumentation,
+        createDelegationEvent(
+          batch,
+          batch.mergeHint.fieldName,
+          args,
+          context,
+          info
+        ),
+        () => {
+          const request = createSubschemaRequest(
+            batch.subschema,
+            args,
+            context,
+            info
+          );
+          return withTimeout(
+            delegateToSchema({
+              schema: batch.subschema.schema,
+              operation: "query",
+              fieldName: batch.mergeHint.fieldName,
+              args: request.args,
+              context,
+              info: {
+                ...info,
+                returnType: info.parentType,
+                fieldNodes: [
+                  createMergeFieldNode(
+                    batch.mergeHint.fieldName,
+                    info.parentType.name,
+                    fieldNodes
+                  )
+                ]
+              },
+              transforms: [
+                ...batch.transforms,
+                ...request.transforms,
+                createForwardErrorsTransform(
+                  batch.subschema.name,
+                  batch.mergeHint.fieldName
+                )
+              ]
+            }),
+            batch.subschema.name,
+            batch.subschema.timeout
+          );
+        }
+      )
+  );
+}
+
+function delegateBatchedLookups(batch: MergeBatch, lookups: MergeLookup[]) {
+  const { mergeHint } = batch;
+  const keys: any[] = [];
+  const keyIndexes = new Map<string, number>();
+  const lookupIndexes = lookups.map(({ parent }) => {
+    const key = getBatchKey(parent, mergeHint);
+    const serializedKey = JSON.stringify(key);
+    if (!keyIndexes.has(serializedKey)) {
+      keyIndexes.set(serializedKey, keys.length);
+      keys.push(key);
+    }
+    return keyIndexes.get(serializedKey)!;
+  });
+
+  const { info, fieldNodes } = lookups[0];
+  const args = { [mergeHint.batchArg!]: keys };
+  getSubschemaContext(batch.subschema, batch.context, info)
+    .then(context =>
+      instrumentDelegation(
+        batch.instrumentation,
+        createDelegationEvent(
+          batch,
+          mergeHint.batchFieldName!,
+          args,
+          context,
+          info
+        ),
+        () => {
+          const request = createSubschemaRequest(
+            batch.subschema,
+            args,
+            context,
+            info
+          );
+          return withTimeout(
+            delegateToSchema({
+              schema: batch.subschema.schema,
+              operation: "query",
+              fieldName: mergeHint.batchFieldName!,
+              args: request.args,
+              context,
+              info: {
+                ...info,
+                returnType: info.parentType,
+                fieldNodes: [
+                  createMergeFieldNode(
+                    mergeHint.batchFieldName!,
+                    info.parentType.name,
+                    fieldNodes
+                  )
+                ]
+              },
+              transforms: [
+                ...batch.transforms,
+                ...request.transforms,
+                createForwardErrorsTransform(
+                  batch.subschema.name,
+                  mergeHint.batchFieldName!
+                )
+              ]
+            }),
+            batch.subschema.name,
+            batch.subschema.timeout
+          );
+        }
+      )
+    )
+    .then(results => {
+      if (isForwardedErrors(results)) {
+        const keyErrors = splitForwardedErrors(results, keys.length);
+        lookups.forEach((lookup, index) =>
+          lookup.resolve(keyErrors[lookupIndexes[index]])
+        );
+        return;
+      }
+      if (!Array.isArray(results) || results.length !== keys.length) {
+        throw new Error(
+          `Batched merge query ${mergeHint.batchFieldName} returned ${
+            Array.isArray(results) ? results.length : "no"
+          } results for ${keys.length} keys`
+        );
+      }
+      lookups.forEach((lookup, index) =>
+        lookup.resolve(results[lookupIndexes[index]])
+      );
+    })
+    .catch(error => lookups.forEach(lookup => lookup.reject(error)));
+}
+
+function createDelegationEvent(
+  batch: MergeBatch,
+  fieldName: string,
+  args: { [key: string]: any },
+  context: any,
+  info: GraphQLResolveInfo
+): DelegationEvent {
+  return {
+    subschema: batch.subschema.name,
+    operation: "query",
+    fieldName,
+    kind: "merge",
+    args,
+    context,
+    info
+  };
+}
+
+// The selections are wrapped in a fragment on the merged type, so merge queries
+// can also return an interface or union that includes it, e.g. `node(id: ID!)`.
+function createMergeFieldNode(
+  fieldName: string,
+  typeName: string,
+  fieldNodes: FieldNode[]
+): FieldNode {
+  return {
+    kind: Kind.FIELD,
+    name: {
+      kind: Kind.NAME,
+      value: fieldName
+    },
+    selectionSet: {
+      kind: Kind.SELECTION_SET,
+      selections: [
+        {
+          kind: Kind.INLINE_FRAGMENT,
+          typeCondition: {
+            kind: Kind.NAMED_TYPE,
+            name: { kind: Kind.NAME, value: typeName }
+          },
+          selectionSet: {
+            kind: Kind.SELECTION_SET,
+            selections: fieldNodes
+          }
+        }
+      ]
+    }
+  };
+}
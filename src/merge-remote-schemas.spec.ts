@@ -1,10 +1,58 @@
-import { graphql, GraphQLScalarType } from "graphql";
+import {
+  buildSchema,
+  defaultFieldResolver,
+  ExecutionResult,
+  graphql,
+  GraphQLEnumType,
+  GraphQLError,
+  GraphQLField,
+  GraphQLInputObjectType,
+  GraphQLInterfaceType,
+  GraphQLObjectType,
+  GraphQLScalarType,
+  GraphQLUnionType,
+  OperationDefinitionNode,
+  parse,
+  specifiedRules,
+  subscribe,
+  validate
+} from "graphql";
 import { GraphQLDate } from "graphql-iso-date";
 import gql from "graphql-tag";
-import { makeExecutableSchema, mergeSchemas } from "graphql-tools";
+import {
+  ITypeDefinitions,
+  makeExecutableSchema,
+  makeRemoteExecutableSchema,
+  mergeSchemas,
+  RenameRootFields,
+  SchemaDirectiveVisitor
+} from "graphql-tools";
 import { printSchema } from "graphql/utilities";
 import "jasmine";
-import { mergeRemoteSchemas } from "./merge-remote-schemas";
+import { printAnnotatedSchema } from "./composition-report";
+import { createInMemoryCacheStore } from "./entity-cache";
+import { FailurePolicy, SubschemaTimeoutError } from "./failure-policy";
+import { createFederatedSubschema } from "./federation";
+import { Instrumentation } from "./instrumentation";
+import {
+  highestPriority,
+  lastWins,
+  MergeConflictError,
+  preferMergeQueryOwner,
+  schemaPriority
+} from "./merge-conflicts";
+import { mergeHintTypeDefs } from "./merge-hints";
+import {
+  mergeRemoteSchemas,
+  mergeRemoteSchemasWithReport
+} from "./merge-remote-schemas";
+import { createQueryCostRule, estimateQueryCost } from "./query-cost";
+import {
+  createHideTransform,
+  createNamespaceTransform,
+  createRenameRootFieldsTransform,
+  createRenameTypesTransform
+} from "./transforms";
 
 const combinedSchema = `type Bar {
   id: ID!
@@ -58,6 +106,32 @@ input UpdateFooInput {
 }
 `;
 
+// Creates a service whose merge query is a spy, so tests can check what it was
+// asked for. The spy answers with what `lookUp` returns for its arguments.
+const createLookupService = ({
+  typeDefs,
+  fieldName,
+  lookUp,
+  resolvers = {}
+}: {
+  typeDefs: ITypeDefinitions;
+  fieldName: string;
+  lookUp: (args: any) => any;
+  resolvers?: { [typeName: string]: any };
+}) => {
+  const lookup = jasmine
+    .createSpy(fieldName)
+    .and.callFake((parent: any, args: any) => lookUp(args));
+  const schema = makeExecutableSchema({
+    typeDefs,
+    resolvers: {
+      ...resolvers,
+      Query: { ...resolvers.Query, [fieldName]: lookup }
+    }
+  });
+  return { schema, lookup };
+};
+
 describe("mergeRemoteSchemas", () => {
   const fooSchema = makeExecutableSchema({
     typeDefs: gql`
@@ -259,4 +333,3928 @@ describe("mergeRemoteSchemas", () => {
       })
       .catch(() => fail());
   });
+
+  it("should use merge hint directives to look up merged types", () => {
+    const catalogSchema = makeExecutableSchema({
+      typeDefs: [
+        mergeHintTypeDefs,
+        gql`
+          type Query {
+            products: [Product!]!
+            productBySku(sku: String!): Product
+          }
+
+          type Product @key(fields: "sku") @mergeQuery(field: "productBySku") {
+            sku: String!
+            name: String!
+          }
+        `
+      ],
+      resolvers: {
+        Query: {
+          products: () => [{ sku: "abc", name: "Widget" }],
+          productBySku: (_, { sku }) => ({ sku, name: "Widget" })
+        }
+      }
+    });
+
+    const inventorySchema = makeExecutableSchema({
+      typeDefs: [
+        mergeHintTypeDefs,
+        gql`
+          type Query {
+            stockedProduct(sku: String!): Product
+          }
+
+          type Product
+            @key(fields: "sku")
+            @mergeQuery(field: "stockedProduct") {
+            sku: String!
+            stock: Int!
+          }
+        `
+      ],
+      resolvers: {
+        Query: {
+          stockedProduct: (_, { sku }) => ({ sku, stock: sku.length })
+        }
+      }
+    });
+
+    const mergedSchema = mergeRemoteSchemas({
+      schemas: [catalogSchema, inventorySchema]
+    });
+    return graphql(
+      mergedSchema,
+      `
+        query {
+          products {
+            sku
+            name
+            stock
+          }
+        }
+      `
+    ).then(result => {
+      expect(result).toEqual({
+        data: {
+          products: [{ sku: "abc", name: "Widget", stock: 3 }]
+        }
+      });
+    });
+  });
+
+  it("should look up merged types by a composite key", () => {
+    const orderSchema = makeExecutableSchema({
+      typeDefs: gql`
+        type Query {
+          orders: [Order!]!
+          orderByNumber(tenantId: ID!, orderNumber: Int!): Order
+        }
+
+        type Order {
+          tenantId: ID!
+          orderNumber: Int!
+          total: Float!
+        }
+      `,
+      resolvers: {
+        Query: {
+          orders: () => [
+            { tenantId: "a", orderNumber: 1, total: 10 },
+            { tenantId: "b", orderNumber: 1, total: 20 }
+          ]
+        }
+      }
+    });
+
+    const shippingSchema = makeExecutableSchema({
+      typeDefs: gql`
+        type Query {
+          orderByNumber(tenantId: ID!, orderNumber: Int!): Order
+        }
+
+        type Order {
+          tenantId: ID!
+          orderNumber: Int!
+          carrier: String!
+        }
+      `,
+      resolvers: {
+        Query: {
+          orderByNumber: (_, { tenantId, orderNumber }) => ({
+            tenantId,
+            orderNumber,
+            carrier: `${tenantId}-${orderNumber}`
+          })
+        }
+      }
+    });
+
+    const mergedSchema = mergeRemoteSchemas({
+      schemas: [orderSchema, shippingSchema],
+      merge: {
+        Order: { fieldName: "orderByNumber", key: "tenantId orderNumber" }
+      }
+    });
+    return graphql(
+      mergedSchema,
+      `
+        query {
+          orders {
+            tenantId
+            orderNumber
+            carrier
+          }
+        }
+      `
+    ).then(result => {
+      expect(result).toEqual({
+        data: {
+          orders: [
+            { tenantId: "a", orderNumber: 1, carrier: "a-1" },
+            { tenantId: "b", orderNumber: 1, carrier: "b-1" }
+          ]
+        }
+      });
+    });
+  });
+
+  it("should pass nested keys to the merge query as an input object", () => {
+    const bookSchema = makeExecutableSchema({
+      typeDefs: gql`
+        type Query {
+          books: [Book!]!
+        }
+
+        type Book {
+          title: String!
+          author: Author!
+        }
+
+        type Author {
+          id: ID!
+        }
+      `,
+      resolvers: {
+        Query: {
+          books: () => [{ title: "Dune", author: { id: "herbert" } }]
+        }
+      }
+    });
+
+    const editionSchema = makeExecutableSchema({
+      typeDefs: [
+        mergeHintTypeDefs,
+        gql`
+          input BookKey {
+            title: String!
+            author: AuthorKey!
+          }
+
+          input AuthorKey {
+            id: ID!
+          }
+
+          type Query {
+            bookByKey(key: BookKey!): Book
+          }
+
+          type Book
+            @key(fields: "title author { id }")
+            @mergeQuery(field: "bookByKey", keyArg: "key") {
+            title: String!
+            editions: Int!
+          }
+        `
+      ],
+      resolvers: {
+        Query: {
+          bookByKey: (_, { key }) => ({
+            title: key.title,
+            editions: key.author.id.length
+          })
+        }
+      }
+    });
+
+    const mergedSchema = mergeRemoteSchemas({
+      schemas: [bookSchema, editionSchema]
+    });
+    return graphql(
+      mergedSchema,
+      `
+        query {
+          books {
+            title
+            author {
+              id
+            }
+            editions
+          }
+        }
+      `
+    ).then(result => {
+      expect(result).toEqual({
+        data: {
+          books: [{ title: "Dune", author: { id: "herbert" }, editions: 7 }]
+        }
+      });
+    });
+  });
+
+  it("should fetch key fields the client didn't select", () => {
+    const bookSchema = makeExecutableSchema({
+      typeDefs: gql`
+        type Query {
+          book(id: ID!): Book
+        }
+
+        type Book {
+          id: ID!
+          title: String
+        }
+      `,
+      resolvers: {
+        Query: {
+          book: (_, { id }) => ({ id, title: "Dune" })
+        }
+      }
+    });
+
+    const reviewSchema = makeExecutableSchema({
+      typeDefs: gql`
+        type Query {
+          book(id: ID!): Book
+          review(id: ID!): Review
+        }
+
+        type Review {
+          id: ID!
+          book: Book!
+        }
+
+        type Book {
+          id: ID!
+          reviews: [Review!]!
+        }
+      `,
+      resolvers: {
+        Query: {
+          book: (_, { id }) => ({ id }),
+          review: (_, { id }) => ({ id, book: { id: "dune" } })
+        },
+        Book: {
+          reviews: ({ id }) => [{ id: `${id}-review` }]
+        }
+      }
+    });
+
+    const mergedSchema = mergeRemoteSchemas({
+      schemas: [bookSchema, reviewSchema]
+    });
+    return graphql(
+      mergedSchema,
+      `
+        query {
+          review(id: "1") {
+            book {
+              title
+              reviews {
+                id
+              }
+            }
+          }
+        }
+      `
+    ).then(result => {
+      expect(result).toEqual({
+        data: {
+          review: {
+            book: { title: "Dune", reviews: [{ id: "dune-review" }] }
+          }
+        }
+      });
+    });
+  });
+
+  it("should fetch key fields that an alias took the name of", () => {
+    const bookSchema = makeExecutableSchema({
+      typeDefs: gql`
+        type Query {
+          allBooks: [Book!]!
+        }
+
+        type Book {
+          id: ID!
+          title: String!
+        }
+      `,
+      resolvers: {
+        Query: {
+          allBooks: () => [
+            { id: "1", title: "Dune" },
+            { id: "2", title: "Emma" }
+          ]
+        }
+      }
+    });
+
+    const requestedIds: string[][] = [];
+    const reviewSchema = makeExecutableSchema({
+      typeDefs: gql`
+        type Query {
+          books(ids: [ID!]!): [Book]!
+        }
+
+        type Book {
+          id: ID!
+          rating: Int!
+        }
+      `,
+      resolvers: {
+        Query: {
+          books: (_, { ids }) => {
+            requestedIds.push(ids);
+            return ids.map((id: string) => ({ id, rating: Number(id) }));
+          }
+        }
+      }
+    });
+
+    const mergedSchema = mergeRemoteSchemas({
+      schemas: [bookSchema, reviewSchema]
+    });
+    return graphql(mergedSchema, "{ allBooks { id: title rating } }").then(
+      result => {
+        expect(result).toEqual({
+          data: {
+            allBooks: [
+              { id: "Dune", rating: 1 },
+              { id: "Emma", rating: 2 }
+            ]
+          }
+        });
+        expect(requestedIds).toEqual([["1", "2"]]);
+      }
+    );
+  });
+
+  it("should fetch sibling fields from the same schema in one request", () => {
+    const bookSchema = makeExecutableSchema({
+      typeDefs: gql`
+        type Query {
+          book(id: ID!): Book
+        }
+
+        type Book {
+          id: ID!
+          title: String
+        }
+      `,
+      resolvers: {
+        Query: {
+          book: (_, { id }) => ({ id, title: "Dune" })
+        }
+      }
+    });
+
+    let lookups = 0;
+    const reviewSchema = makeExecutableSchema({
+      typeDefs: gql`
+        type Query {
+          book(id: ID!): Book
+        }
+
+        type Book {
+          id: ID!
+          rating: Float!
+          reviewCount: Int!
+          reviews: [String!]!
+        }
+      `,
+      resolvers: {
+        Query: {
+          book: (_, { id }) => {
+            lookups++;
+            return { id, rating: 4.5, reviewCount: 1, reviews: ["Great"] };
+          }
+        }
+      }
+    });
+
+    const mergedSchema = mergeRemoteSchemas({
+      schemas: [bookSchema, reviewSchema]
+    });
+    return graphql(
+      mergedSchema,
+      `
+        query {
+          book(id: "dune") {
+            title
+            rating
+            reviewCount
+            reviews
+          }
+        }
+      `
+    ).then(result => {
+      expect(result).toEqual({
+        data: {
+          book: {
+            title: "Dune",
+            rating: 4.5,
+            reviewCount: 1,
+            reviews: ["Great"]
+          }
+        }
+      });
+      expect(lookups).toEqual(1);
+    });
+  });
+
+  describe("batched merge queries", () => {
+    const bookSchema = makeExecutableSchema({
+      typeDefs: gql`
+        type Query {
+          bestsellers: [Book!]!
+        }
+
+        type Book {
+          id: ID!
+          isbn: String!
+        }
+      `,
+      resolvers: {
+        Query: {
+          bestsellers: () =>
+            Array.from({ length: 50 }, (_, index) => ({
+              id: `${index}`,
+              isbn: `isbn-${index % 10}`
+            }))
+        }
+      }
+    });
+
+    it("should look up a list of entities with one remote execution", () => {
+      let executions = 0;
+      const reviewSchema = makeExecutableSchema({
+        typeDefs: gql`
+          type Query {
+            book(id: ID!): Book
+            books(ids: [ID!]!): [Book]!
+          }
+
+          type Book {
+            id: ID!
+            rating: Int!
+          }
+        `,
+        resolvers: {
+          Query: {
+            book: (_, { id }) => {
+              executions++;
+              return { id, rating: Number(id) };
+            },
+            books: (_, { ids }) => {
+              executions++;
+              return ids.map((id: string) => ({ id, rating: Number(id) }));
+            }
+          }
+        }
+      });
+
+      const mergedSchema = mergeRemoteSchemas({
+        schemas: [bookSchema, reviewSchema]
+      });
+      return graphql(
+        mergedSchema,
+        `
+          query {
+            bestsellers {
+              rating
+            }
+          }
+        `
+      ).then(result => {
+        expect(result).toEqual({
+          data: {
+            bestsellers: Array.from({ length: 50 }, (_, index) => ({
+              rating: index
+            }))
+          }
+        });
+        expect(executions).toEqual(1);
+      });
+    });
+
+    it("should locate errors of batched merge queries at their item", () => {
+      const reviewSchema = makeExecutableSchema({
+        typeDefs: gql`
+          type Query {
+            books(ids: [ID!]!): [Book!]!
+          }
+
+          type Book {
+            id: ID!
+            rating: Int!
+          }
+        `,
+        resolvers: {
+          Query: {
+            books: (_, { ids }) => ids.map((id: string) => ({ id }))
+          },
+          Book: {
+            rating: ({ id }) => {
+              if (id === "1") {
+                throw new Error("Book 1 has no rating");
+              }
+              return Number(id);
+            }
+          }
+        }
+      });
+
+      // The failed item nulls the whole list, but the merged field is nullable.
+      const mergedSchema = mergeRemoteSchemas({
+        subschemas: [
+          { name: "books", schema: bookSchema },
+          { name: "reviews", schema: reviewSchema, onFailure: "null" }
+        ]
+      });
+      return graphql(mergedSchema, "{ bestsellers { rating } }").then(
+        result => {
+          expect(
+            result.errors!.map(({ message, path }) => ({ message, path }))
+          ).toEqual([
+            {
+              message: "Book 1 has no rating",
+              path: ["bestsellers", 1, "rating"]
+            }
+          ]);
+          expect(result.data!.bestsellers[1]).toEqual({ rating: null });
+        }
+      );
+    });
+
+    it("should use a batched merge query named in top-level config", () => {
+      const requestedIds: string[][] = [];
+      const reviewSchema = makeExecutableSchema({
+        typeDefs: gql`
+          type Query {
+            book(id: ID!): Book
+            booksByIds(ids: [ID!]!): [Book]!
+          }
+
+          type Book {
+            id: ID!
+            rating: Int!
+          }
+        `,
+        resolvers: {
+          Query: {
+            booksByIds: (_, { ids }) => {
+              requestedIds.push(ids);
+              return ids.map((id: string) => ({ id, rating: Number(id) }));
+            }
+          }
+        }
+      });
+
+      const mergedSchema = mergeRemoteSchemas({
+        schemas: [bookSchema, reviewSchema],
+        merge: { Book: { batchFieldName: "booksByIds" } }
+      });
+      return graphql(mergedSchema, "{ bestsellers { rating } }").then(
+        result => {
+          expect(result).toEqual({
+            data: {
+              bestsellers: Array.from({ length: 50 }, (_, index) => ({
+                rating: index
+              }))
+            }
+          });
+          expect(requestedIds).toEqual([
+            Array.from({ length: 50 }, (_, index) => `${index}`)
+          ]);
+        }
+      );
+    });
+
+    it("should use a batched merge query named by a directive", () => {
+      const requestedIsbns: string[][] = [];
+      const editionSchema = makeExecutableSchema({
+        typeDefs: [
+          mergeHintTypeDefs,
+          gql`
+            type Query {
+              bookByIsbn(isbn: String!): Book
+              booksByIsbns(isbns: [String!]!): [Book]!
+            }
+
+            type Book
+              @key(fields: "isbn")
+              @mergeQuery(field: "bookByIsbn", batchField: "booksByIsbns") {
+              isbn: String!
+              editions: Int!
+            }
+          `
+        ],
+        resolvers: {
+          Query: {
+            booksByIsbns: (_, { isbns }) => {
+              requestedIsbns.push(isbns);
+              return isbns.map((isbn: string) => ({
+                isbn,
+                editions: Number(isbn.slice(5))
+              }));
+            }
+          }
+        }
+      });
+
+      const mergedSchema = mergeRemoteSchemas({
+        schemas: [bookSchema, editionSchema]
+      });
+      return graphql(
+        mergedSchema,
+        `
+          query {
+            bestsellers {
+              id
+              editions
+            }
+          }
+        `
+      ).then(result => {
+        expect(result).toEqual({
+          data: {
+            bestsellers: Array.from({ length: 50 }, (_, index) => ({
+              id: `${index}`,
+              editions: index % 10
+            }))
+          }
+        });
+        expect(requestedIsbns).toEqual([
+          Array.from({ length: 10 }, (_, index) => `isbn-${index}`)
+        ]);
+      });
+    });
+  });
+
+  it("should merge subscriptions", () => {
+    const notificationSchema = makeExecutableSchema({
+      typeDefs: gql`
+        type Query {
+          book(id: ID!): Book
+        }
+
+        type Subscription {
+          bookAdded: Book!
+        }
+
+        type Book {
+          id: ID!
+          title: String!
+        }
+      `,
+      resolvers: {
+        Subscription: {
+          bookAdded: {
+            async *subscribe() {
+              yield { bookAdded: { id: "dune", title: "Dune" } };
+            }
+          }
+        }
+      }
+    });
+
+    const reviewSchema = makeExecutableSchema({
+      typeDefs: gql`
+        type Query {
+          book(id: ID!): Book
+        }
+
+        type Book {
+          id: ID!
+          reviews: [String!]!
+        }
+      `,
+      resolvers: {
+        Query: {
+          book: (_, { id }) => ({ id, reviews: [`${id} is great`] })
+        }
+      }
+    });
+
+    const mergedSchema = mergeRemoteSchemas({
+      schemas: [notificationSchema, reviewSchema]
+    });
+    return subscribe(
+      mergedSchema,
+      parse(`
+        subscription {
+          bookAdded {
+            title
+            reviews
+          }
+        }
+      `)
+    )
+      .then(iterator => (iterator as AsyncIterator<ExecutionResult>).next())
+      .then(({ value }) => {
+        expect(value).toEqual({
+          data: {
+            bookAdded: { title: "Dune", reviews: ["dune is great"] }
+          }
+        });
+      });
+  });
+
+  describe("conflicting fields", () => {
+    const euOrderSchema = makeExecutableSchema({
+      typeDefs: gql`
+        type Query {
+          order(id: ID!): Order
+        }
+
+        type Order {
+          id: ID!
+          total: Float!
+        }
+      `,
+      resolvers: {
+        Query: {
+          order: (_, { id }) => ({ id, total: 1.5 })
+        }
+      }
+    });
+
+    const usOrderSchema = makeExecutableSchema({
+      typeDefs: gql`
+        type Query {
+          order(id: String!, region: String): Order!
+        }
+
+        type Order {
+          id: ID!
+          total: Int
+        }
+      `
+    });
+
+    it("should report every conflicting field", () => {
+      let error: MergeConflictError | undefined;
+      try {
+        mergeRemoteSchemas({ schemas: [euOrderSchema, usOrderSchema] });
+      } catch (e) {
+        error = e;
+      }
+      expect(error instanceof MergeConflictError).toBe(true);
+      expect(error!.conflicts).toEqual([
+        {
+          typeName: "Query",
+          fieldName: "order",
+          schemas: [euOrderSchema, usOrderSchema],
+          subschemas: ["schemas[0]", "schemas[1]"],
+          reasons: [
+            "returns Order in schemas[0] but Order! in schemas[1]",
+            "argument id has type ID! in schemas[0] but String! in schemas[1]",
+            "argument region is missing in schemas[0]"
+          ]
+        },
+        {
+          typeName: "Order",
+          fieldName: "total",
+          schemas: [euOrderSchema, usOrderSchema],
+          subschemas: ["schemas[0]", "schemas[1]"],
+          reasons: ["returns Float! in schemas[0] but Int in schemas[1]"]
+        }
+      ]);
+      expect(error!.message).toContain("Order.total: returns Float!");
+    });
+
+    it("should keep the first definition when conflicts are allowed", () => {
+      const mergedSchema = mergeRemoteSchemas({
+        schemas: [euOrderSchema, usOrderSchema],
+        onConflict: "first-wins"
+      });
+      return graphql(
+        mergedSchema,
+        `
+          query {
+            order(id: "1") {
+              total
+            }
+          }
+        `
+      ).then(result => {
+        expect(result).toEqual({ data: { order: { total: 1.5 } } });
+      });
+    });
+
+    it("should resolve conflicts with a conflict resolver", () => {
+      const mergedSchema = mergeRemoteSchemas({
+        schemas: [euOrderSchema, usOrderSchema],
+        onFieldConflict: schemaPriority([usOrderSchema, euOrderSchema])
+      });
+      const orderField = mergedSchema.getQueryType()!.getFields().order;
+      expect(String(orderField.type)).toEqual("Order!");
+      expect(orderField.args.map(arg => arg.name)).toEqual(["id", "region"]);
+      const orderType = mergedSchema.getType("Order") as GraphQLObjectType;
+      expect(String(orderType.getFields().total.type)).toEqual("Int");
+    });
+
+    it("should let a custom resolver synthesize the winning field", () => {
+      const mergedSchema = mergeRemoteSchemas({
+        schemas: [euOrderSchema, usOrderSchema],
+        onFieldConflict: (candidates, { typeName, fieldName }) => {
+          const winner = lastWins(candidates);
+          return {
+            ...winner,
+            field: {
+              ...winner.field,
+              description: `${typeName}.${fieldName} from ${candidates.length} schemas`
+            }
+          };
+        }
+      });
+      expect(
+        mergedSchema.getQueryType()!.getFields().order.description
+      ).toEqual("Query.order from 2 schemas");
+    });
+
+    it("should prefer the schema that owns the merge query", () => {
+      const listingSchema = makeExecutableSchema({
+        typeDefs: gql`
+          type Query {
+            orders: [Order!]!
+          }
+
+          type Order {
+            id: ID!
+          }
+        `,
+        resolvers: {
+          Query: {
+            orders: () => [{ id: "1" }]
+          }
+        }
+      });
+
+      const catalogSchema = makeExecutableSchema({
+        typeDefs: gql`
+          type Query {
+            catalogSize: Int!
+          }
+
+          type Order {
+            id: ID!
+            total: Float!
+          }
+        `
+      });
+
+      const mergedSchema = mergeRemoteSchemas({
+        schemas: [listingSchema, catalogSchema, euOrderSchema],
+        onFieldConflict: preferMergeQueryOwner
+      });
+      return graphql(
+        mergedSchema,
+        `
+          query {
+            orders {
+              id
+              total
+            }
+          }
+        `
+      ).then(result => {
+        expect(result).toEqual({
+          data: { orders: [{ id: "1", total: 1.5 }] }
+        });
+      });
+    });
+  });
+
+  describe("named subschemas", () => {
+    const euOrderSchema = makeExecutableSchema({
+      typeDefs: gql`
+        type Query {
+          order(id: ID!): Order
+        }
+
+        type Order {
+          id: ID!
+          total: Float!
+        }
+      `,
+      resolvers: {
+        Query: {
+          order: (parent: any, { id }: any) => ({ id, total: 1.5 })
+        }
+      }
+    });
+
+    const usOrderSchema = makeExecutableSchema({
+      typeDefs: gql`
+        type Query {
+          order(id: ID!): Order
+          orderByNumber(number: Int!): Order
+        }
+
+        type Order {
+          id: ID!
+          total: Float!
+          currency: String!
+        }
+      `,
+      resolvers: {
+        Query: {
+          order: (parent: any, { id }: any) => ({ id, total: 2 }),
+          orderByNumber: (parent: any, args: any) => ({
+            id: String(args.number),
+            total: 2,
+            currency: "USD"
+          })
+        }
+      }
+    });
+
+    it("should name subschemas in conflict reports", () => {
+      const conflictingSchema = makeExecutableSchema({
+        typeDefs: gql`
+          type Query {
+            order(id: ID!): Order
+          }
+
+          type Order {
+            id: ID!
+            total: Int
+          }
+        `
+      });
+      expect(() =>
+        mergeRemoteSchemas({
+          schemas: [euOrderSchema],
+          subschemas: [{ name: "billing", schema: conflictingSchema }]
+        })
+      ).toThrowError(
+        MergeConflictError,
+        "Found 1 conflicting field definition:\n" +
+          "  Order.total: returns Float! in schemas[0] but Int in billing"
+      );
+    });
+
+    it("should reject duplicate subschema names", () => {
+      expect(() =>
+        mergeRemoteSchemas({
+          subschemas: [
+            { name: "orders", schema: euOrderSchema },
+            { name: "orders", schema: usOrderSchema }
+          ]
+        })
+      ).toThrowError("Subschema name orders is used more than once");
+    });
+
+    it("should use per-subschema merge configuration", () => {
+      const numberedOrderSchema = makeExecutableSchema({
+        typeDefs: gql`
+          type Query {
+            latestOrder: Order
+          }
+
+          type Order {
+            number: Int!
+          }
+        `,
+        resolvers: {
+          Query: {
+            latestOrder: () => ({ number: 7 })
+          }
+        }
+      });
+      const mergedSchema = mergeRemoteSchemas({
+        subschemas: [
+          { name: "history", schema: numberedOrderSchema },
+          {
+            name: "us",
+            schema: usOrderSchema,
+            merge: { Order: { fieldName: "orderByNumber", key: "number" } }
+          }
+        ],
+        onConflict: "first-wins"
+      });
+      return graphql(
+        mergedSchema,
+        `
+          query {
+            latestOrder {
+              number
+              currency
+            }
+          }
+        `
+      ).then(result => {
+        expect(result).toEqual({
+          data: { latestOrder: { number: 7, currency: "USD" } }
+        });
+      });
+    });
+
+    it("should prefer subschemas with a higher priority", () => {
+      const mergedSchema = mergeRemoteSchemas({
+        subschemas: [
+          { name: "eu", schema: euOrderSchema },
+          { name: "us", schema: usOrderSchema, priority: 1 }
+        ]
+      });
+      return graphql(
+        mergedSchema,
+        `
+          query {
+            order(id: "1") {
+              total
+            }
+          }
+        `
+      ).then(result => {
+        expect(result).toEqual({ data: { order: { total: 2 } } });
+      });
+    });
+
+    it("should rank candidates by subschema name", () => {
+      const mergedSchema = mergeRemoteSchemas({
+        subschemas: [
+          { name: "eu", schema: euOrderSchema, priority: 1 },
+          { name: "us", schema: usOrderSchema }
+        ],
+        onFieldConflict: schemaPriority(["us", "eu"]),
+        onTypeConflict: highestPriority
+      });
+      return graphql(
+        mergedSchema,
+        `
+          query {
+            order(id: "1") {
+              total
+            }
+          }
+        `
+      ).then(result => {
+        expect(result).toEqual({ data: { order: { total: 2 } } });
+      });
+    });
+
+    it("should apply subschema transforms before merging", () => {
+      const mergedSchema = mergeRemoteSchemas({
+        subschemas: [
+          { name: "eu", schema: euOrderSchema },
+          {
+            name: "us",
+            schema: usOrderSchema,
+            transforms: [
+              new RenameRootFields((operation, name) =>
+                name === "order" ? "usOrder" : name
+              )
+            ]
+          }
+        ]
+      });
+      return graphql(
+        mergedSchema,
+        `
+          query {
+            order(id: "1") {
+              total
+            }
+            usOrder(id: "2") {
+              total
+            }
+          }
+        `
+      ).then(result => {
+        expect(result).toEqual({
+          data: { order: { total: 1.5 }, usOrder: { total: 2 } }
+        });
+      });
+    });
+  });
+
+  describe("non-object types", () => {
+    const librarySchema = makeExecutableSchema({
+      typeDefs: gql`
+        type Query {
+          librarySearch(filter: SearchFilter!): [SearchResult!]!
+        }
+
+        input SearchFilter {
+          term: String!
+          status: Status
+        }
+
+        enum Status {
+          AVAILABLE
+          CHECKED_OUT
+        }
+
+        interface Node {
+          id: ID!
+        }
+
+        union SearchResult = Book | Author
+
+        type Book implements Node {
+          id: ID!
+          createdAt: String
+          title: String!
+          status: Status!
+        }
+
+        type Author implements Node {
+          id: ID!
+          createdAt: String
+          name: String!
+        }
+      `,
+      resolvers: {
+        Query: {
+          librarySearch: () => [
+            { __typename: "Book", id: "1", title: "Dune", status: "AVAILABLE" }
+          ]
+        },
+        SearchResult: {
+          __resolveType: (result: any) => result.__typename
+        },
+        Node: {
+          __resolveType: (node: any) => node.__typename
+        }
+      }
+    });
+
+    const cinemaSchema = makeExecutableSchema({
+      typeDefs: gql`
+        type Query {
+          cinemaSearch(filter: SearchFilter!): [SearchResult!]!
+        }
+
+        input SearchFilter {
+          term: String!
+          year: Int
+        }
+
+        enum Status {
+          AVAILABLE
+          SHOWING
+        }
+
+        interface Node {
+          id: ID!
+          createdAt: String
+        }
+
+        union SearchResult = Movie
+
+        type Movie implements Node {
+          id: ID!
+          createdAt: String
+          title: String!
+          status: Status!
+        }
+      `,
+      resolvers: {
+        Query: {
+          cinemaSearch: (parent: any, { filter }: any) => [
+            {
+              __typename: "Movie",
+              id: "2",
+              createdAt: "2020-01-01",
+              title: `${filter.term} (${filter.year})`,
+              status: "SHOWING"
+            }
+          ]
+        },
+        SearchResult: {
+          __resolveType: (result: any) => result.__typename
+        },
+        Node: {
+          __resolveType: (node: any) => node.__typename
+        }
+      }
+    });
+
+    const mergedSchema = mergeRemoteSchemas({
+      subschemas: [
+        { name: "library", schema: librarySchema },
+        { name: "cinema", schema: cinemaSchema }
+      ]
+    });
+
+    it("should merge union members", () => {
+      const searchResult = mergedSchema.getType(
+        "SearchResult"
+      ) as GraphQLUnionType;
+      expect(searchResult.getTypes().map(type => type.name)).toEqual([
+        "Book",
+        "Author",
+        "Movie"
+      ]);
+      return graphql(
+        mergedSchema,
+        `
+          query {
+            librarySearch(filter: { term: "Dune" }) {
+              ... on Book {
+                title
+              }
+            }
+            cinemaSearch(filter: { term: "Dune", year: 2021 }) {
+              ... on Movie {
+                title
+              }
+            }
+          }
+        `
+      ).then(result => {
+        expect(result).toEqual({
+          data: {
+            librarySearch: [{ title: "Dune" }],
+            cinemaSearch: [{ title: "Dune (2021)" }]
+          }
+        });
+      });
+    });
+
+    it("should merge enum values", () => {
+      const status = mergedSchema.getType("Status") as GraphQLEnumType;
+      expect(status.getValues().map(value => value.name)).toEqual([
+        "AVAILABLE",
+        "CHECKED_OUT",
+        "SHOWING"
+      ]);
+      return graphql(
+        mergedSchema,
+        `
+          query {
+            cinemaSearch(filter: { term: "Dune" }) {
+              ... on Movie {
+                status
+              }
+            }
+          }
+        `
+      ).then(result => {
+        expect(result).toEqual({
+          data: { cinemaSearch: [{ status: "SHOWING" }] }
+        });
+      });
+    });
+
+    it("should merge interface fields", () => {
+      const node = mergedSchema.getType("Node") as GraphQLInterfaceType;
+      expect(Object.keys(node.getFields())).toEqual(["id", "createdAt"]);
+      return graphql(
+        mergedSchema,
+        `
+          query {
+            cinemaSearch(filter: { term: "Dune" }) {
+              ... on Node {
+                id
+                createdAt
+              }
+            }
+          }
+        `
+      ).then(result => {
+        expect(result).toEqual({
+          data: { cinemaSearch: [{ id: "2", createdAt: "2020-01-01" }] }
+        });
+      });
+    });
+
+    it("should leave out interface fields some implementations lack", () => {
+      const podcastSchema = makeExecutableSchema({
+        typeDefs: gql`
+          type Query {
+            podcasts: [Podcast!]!
+          }
+
+          interface Node {
+            id: ID!
+          }
+
+          type Podcast implements Node {
+            id: ID!
+          }
+        `,
+        resolverValidationOptions: { requireResolversForResolveType: false }
+      });
+      const node = mergeRemoteSchemas({
+        schemas: [cinemaSchema, podcastSchema]
+      }).getType("Node") as GraphQLInterfaceType;
+      expect(Object.keys(node.getFields())).toEqual(["id"]);
+    });
+
+    it("should merge input fields", () => {
+      const filter = mergedSchema.getType(
+        "SearchFilter"
+      ) as GraphQLInputObjectType;
+      expect(Object.keys(filter.getFields())).toEqual([
+        "term",
+        "status",
+        "year"
+      ]);
+    });
+
+    it("should only pass on input fields the service declares", () => {
+      const query = `
+        query ($filter: SearchFilter!) {
+          literal: cinemaSearch(
+            filter: { term: "Dune", year: 2021, status: AVAILABLE }
+          ) {
+            ... on Movie {
+              title
+            }
+          }
+          variable: cinemaSearch(filter: $filter) {
+            ... on Movie {
+              title
+            }
+          }
+        }
+      `;
+      return graphql(mergedSchema, query, null, null, {
+        filter: { term: "Emma", year: 2020, status: "AVAILABLE" }
+      }).then(result => {
+        expect(result).toEqual({
+          data: {
+            literal: [{ title: "Dune (2021)" }],
+            variable: [{ title: "Emma (2020)" }]
+          }
+        });
+      });
+    });
+
+    it("should report required input fields that don't agree", () => {
+      const archiveSchema = makeExecutableSchema({
+        typeDefs: gql`
+          type Query {
+            archiveSearch(filter: SearchFilter): Int
+          }
+
+          input SearchFilter {
+            term: String
+          }
+        `
+      });
+      const tagSchema = makeExecutableSchema({
+        typeDefs: gql`
+          type Query {
+            tagSearch(filter: SearchFilter): Int
+          }
+
+          input SearchFilter {
+            tag: String!
+          }
+        `
+      });
+      expect(() =>
+        mergeRemoteSchemas({
+          subschemas: [
+            { name: "library", schema: librarySchema },
+            { name: "archive", schema: archiveSchema },
+            { name: "tags", schema: tagSchema }
+          ]
+        })
+      ).toThrowError(
+        MergeConflictError,
+        "Found 2 conflicting field definitions:\n" +
+          "  SearchFilter.term: is required in library but optional in archive; is required in library but missing in tags\n" +
+          "  SearchFilter.tag: is required in tags but missing in library; is required in tags but missing in archive"
+      );
+    });
+
+    it("should refuse to merge types of different kinds", () => {
+      const statusSchema = makeExecutableSchema({
+        typeDefs: gql`
+          type Query {
+            status: Status
+          }
+
+          scalar Status
+        `
+      });
+      expect(() =>
+        mergeRemoteSchemas({
+          subschemas: [
+            { name: "library", schema: librarySchema },
+            { name: "status", schema: statusSchema }
+          ]
+        })
+      ).toThrowError(
+        "Can't merge types named Status of different kinds (Enum in library, Scalar in status)"
+      );
+    });
+  });
+
+  describe("scalars", () => {
+    const eventSchema = makeExecutableSchema({
+      typeDefs: gql`
+        type Query {
+          eventsOn(date: Date!): [Event!]!
+          ticket(number: Long!): Ticket
+          echo(value: JSON!): JSON
+        }
+
+        type Event {
+          name: String!
+          date: Date!
+        }
+
+        type Ticket {
+          number: Long!
+        }
+
+        scalar Date
+        scalar Long
+        scalar JSON
+      `,
+      resolvers: {
+        Query: {
+          eventsOn: (parent: any, { date }: any) => [{ name: "Launch", date }],
+          ticket: (parent: any, args: any) => ({ number: args.number }),
+          echo: (parent: any, { value }: any) => value
+        },
+        Date: new GraphQLScalarType(GraphQLDate.toConfig()),
+        Long: new GraphQLScalarType({
+          name: "Long",
+          serialize: (value: any) => String(value),
+          parseValue: (value: any) => String(value),
+          parseLiteral: (ast: any) => ast.value
+        }),
+        JSON: new GraphQLScalarType({
+          name: "JSON",
+          serialize: (value: any) => value,
+          parseValue: (value: any) => value,
+          parseLiteral: () => {
+            throw new Error("JSON literals aren't supported");
+          }
+        })
+      }
+    });
+
+    it("should use scalars passed to mergeRemoteSchemas", () => {
+      const mergedSchema = mergeRemoteSchemas({
+        schemas: [eventSchema],
+        scalars: { Date: new GraphQLScalarType(GraphQLDate.toConfig()) }
+      });
+      return graphql(
+        mergedSchema,
+        `
+          query($date: Date!) {
+            literal: eventsOn(date: "2020-02-29") {
+              date
+            }
+            variable: eventsOn(date: $date) {
+              date
+            }
+            invalid: eventsOn(date: "2020-02-30") {
+              date
+            }
+          }
+        `,
+        undefined,
+        undefined,
+        { date: "2021-03-01" }
+      )
+        .then(result => {
+          expect(result.data).toBeUndefined();
+          expect(result.errors!.length).toBe(1);
+          expect(result.errors![0].message).toContain("2020-02-30");
+          return graphql(
+            mergedSchema,
+            `
+              query($date: Date!) {
+                literal: eventsOn(date: "2020-02-29") {
+                  date
+                }
+                variable: eventsOn(date: $date) {
+                  date
+                }
+              }
+            `,
+            undefined,
+            undefined,
+            { date: "2021-03-01" }
+          );
+        })
+        .then(result => {
+          expect(result).toEqual({
+            data: {
+              literal: [{ date: "2020-02-29" }],
+              variable: [{ date: "2021-03-01" }]
+            }
+          });
+        });
+    });
+
+    it("should keep the local schema's scalars", () => {
+      const calendarSchema = makeExecutableSchema({
+        typeDefs: gql`
+          type Query {
+            today: Date!
+          }
+
+          scalar Date
+        `,
+        resolvers: {
+          Query: {
+            today: () => new Date(Date.UTC(2020, 1, 29))
+          },
+          Date: new GraphQLScalarType(GraphQLDate.toConfig())
+        }
+      });
+      const mergedSchema = mergeRemoteSchemas({
+        schemas: [eventSchema],
+        localSchema: calendarSchema
+      });
+      expect(mergedSchema.getType("Date")).toBe(calendarSchema.getType("Date"));
+      return graphql(
+        mergedSchema,
+        `
+          query {
+            today
+            eventsOn(date: "2020-02-29") {
+              name
+              date
+            }
+          }
+        `
+      ).then(result => {
+        expect(result).toEqual({
+          data: {
+            today: "2020-02-29",
+            eventsOn: [{ name: "Launch", date: "2020-02-29" }]
+          }
+        });
+      });
+    });
+
+    it("should pass on large integer literals without losing precision", () => {
+      const mergedSchema = mergeRemoteSchemas({ schemas: [eventSchema] });
+      return graphql(
+        mergedSchema,
+        `
+          query {
+            ticket(number: 12345678901234567890) {
+              number
+            }
+          }
+        `
+      ).then(result => {
+        expect(result).toEqual({
+          data: { ticket: { number: "12345678901234567890" } }
+        });
+      });
+    });
+
+    it("should pass on every kind of literal", () => {
+      const mergedSchema = mergeRemoteSchemas({ schemas: [eventSchema] });
+      return graphql(
+        mergedSchema,
+        `
+          query($name: String) {
+            echo(
+              value: {
+                name: $name
+                count: 3
+                ratio: 0.5
+                enabled: true
+                kind: SPECIAL
+                tags: ["a", null]
+              }
+            )
+          }
+        `,
+        undefined,
+        undefined,
+        { name: "test" }
+      ).then(result => {
+        expect(result).toEqual({
+          data: {
+            echo: {
+              name: "test",
+              count: 3,
+              ratio: 0.5,
+              enabled: true,
+              kind: "SPECIAL",
+              tags: ["a", null]
+            }
+          }
+        });
+      });
+    });
+  });
+
+  describe("directives", () => {
+    const catalogSchema = makeExecutableSchema({
+      typeDefs: gql`
+        directive @auth(requires: Role = ADMIN) on OBJECT | FIELD_DEFINITION
+        directive @cacheControl(maxAge: Int) on OBJECT | FIELD_DEFINITION
+
+        enum Role {
+          ADMIN
+          USER
+        }
+
+        type Query {
+          book(id: ID!): Book
+        }
+
+        type Book @cacheControl(maxAge: 60) {
+          id: ID!
+          title: String!
+          price: Float! @auth(requires: USER)
+        }
+      `,
+      resolvers: {
+        Query: {
+          book: (parent: any, { id }: any) => ({ id, title: "Dune", price: 9 })
+        }
+      }
+    });
+
+    const reviewSchema = makeExecutableSchema({
+      typeDefs: gql`
+        directive @auth(
+          requires: Role
+        ) on OBJECT | FIELD_DEFINITION | ARGUMENT_DEFINITION
+        directive @upper on FIELD_DEFINITION
+
+        enum Role {
+          ADMIN
+          USER
+        }
+
+        type Query {
+          reviews(first: Int @auth(requires: ADMIN)): [Review!]!
+        }
+
+        type Review {
+          id: ID!
+          book: Book!
+        }
+
+        type Book @auth(requires: USER) {
+          id: ID!
+          title: String! @upper
+        }
+      `,
+      resolvers: {
+        Query: {
+          reviews: () => [{ id: "1", book: { id: "1", title: "Dune" } }]
+        }
+      }
+    });
+
+    const getDirectiveNames = (
+      node?: {
+        directives?: ReadonlyArray<{ name: { value: string } }>;
+      } | null
+    ) => ((node && node.directives) || []).map(({ name }) => name.value);
+
+    it("should merge directive definitions", () => {
+      const mergedSchema = mergeRemoteSchemas({
+        subschemas: [
+          { name: "catalog", schema: catalogSchema },
+          { name: "reviews", schema: reviewSchema }
+        ]
+      });
+      expect(mergedSchema.getDirectives().map(({ name }) => name)).toEqual([
+        "include",
+        "skip",
+        "deprecated",
+        "auth",
+        "cacheControl",
+        "upper"
+      ]);
+      const auth = mergedSchema.getDirective("auth")!;
+      expect(auth.locations).toEqual([
+        "OBJECT",
+        "FIELD_DEFINITION",
+        "ARGUMENT_DEFINITION"
+      ]);
+      expect(auth.args[0].type).toBe(
+        mergedSchema.getType("Role") as GraphQLEnumType
+      );
+      expect(auth.args[0].defaultValue).toEqual("ADMIN");
+    });
+
+    it("should report directive arguments that don't agree", () => {
+      const legacySchema = makeExecutableSchema({
+        typeDefs: gql`
+          directive @auth(requires: String, scope: String) on FIELD_DEFINITION
+
+          type Query {
+            legacy: String @auth(requires: "ADMIN")
+          }
+        `
+      });
+      expect(() =>
+        mergeRemoteSchemas({
+          subschemas: [
+            { name: "catalog", schema: catalogSchema },
+            { name: "legacy", schema: legacySchema }
+          ]
+        })
+      ).toThrowError(
+        MergeConflictError,
+        "Found 2 conflicting field definitions:\n" +
+          "  @auth.requires: has type Role in catalog but String in legacy\n" +
+          "  @auth.scope: is missing in catalog"
+      );
+    });
+
+    it("should keep directive usages on types, fields and arguments", () => {
+      const mergedSchema = mergeRemoteSchemas({
+        schemas: [catalogSchema, reviewSchema]
+      });
+      const book = mergedSchema.getType("Book") as GraphQLObjectType;
+      expect(getDirectiveNames(book.astNode)).toEqual(["cacheControl", "auth"]);
+      expect(getDirectiveNames(book.getFields().price.astNode)).toEqual([
+        "auth"
+      ]);
+      expect(getDirectiveNames(book.getFields().title.astNode)).toEqual([
+        "upper"
+      ]);
+      const reviews = mergedSchema.getQueryType()!.getFields().reviews;
+      expect(getDirectiveNames(reviews.args[0].astNode)).toEqual(["auth"]);
+    });
+
+    it("should let gateway tooling act on directive usages", () => {
+      class UpperDirective extends SchemaDirectiveVisitor {
+        public visitFieldDefinition(field: GraphQLField<any, any>) {
+          const { resolve = defaultFieldResolver } = field;
+          field.resolve = (...args) =>
+            Promise.resolve(resolve(...args)).then(value =>
+              value.toUpperCase()
+            );
+        }
+      }
+      const mergedSchema = mergeRemoteSchemas({
+        schemas: [catalogSchema, reviewSchema]
+      });
+      SchemaDirectiveVisitor.visitSchemaDirectives(mergedSchema, {
+        upper: UpperDirective
+      });
+      return graphql(
+        mergedSchema,
+        `
+          query {
+            book(id: "1") {
+              title
+            }
+          }
+        `
+      ).then(result => {
+        expect(result).toEqual({ data: { book: { title: "DUNE" } } });
+      });
+    });
+  });
+
+  describe("errors", () => {
+    const notFound = (message: string) =>
+      Object.assign(new Error(message), { extensions: { code: "NOT_FOUND" } });
+
+    const bookSchema = makeExecutableSchema({
+      typeDefs: gql`
+        type Query {
+          book(id: ID!): Book
+          books: [Book]
+          shelves: [[Book!]!]!
+        }
+
+        type Book {
+          id: ID!
+          title: String
+          isbn: String!
+          code: String!
+        }
+      `,
+      resolvers: {
+        Query: {
+          book: (parent: any, { id }: any) => {
+            if (id === "missing") {
+              throw notFound(`Book ${id} not found`);
+            }
+            return { id };
+          },
+          books: () => [
+            { id: "1" },
+            Promise.reject(notFound("Book 2 not found")),
+            { id: "secret" }
+          ],
+          shelves: () => [[{ id: "1" }], [{ id: "secret" }]]
+        },
+        Book: {
+          title: ({ id }: any) => {
+            if (id === "secret") {
+              throw Object.assign(new Error("Forbidden"), {
+                extensions: { code: "FORBIDDEN" }
+              });
+            }
+            return "Dune";
+          },
+          isbn: () => {
+            throw new Error("No ISBN");
+          },
+          code: () => {
+            throw new Error("No code");
+          }
+        }
+      }
+    });
+
+    const reviewSchema = makeExecutableSchema({
+      typeDefs: gql`
+        type Query {
+          reviews: [Review!]!
+        }
+
+        type Review {
+          id: ID!
+          book: Book!
+        }
+
+        type Book {
+          id: ID!
+        }
+      `,
+      resolvers: {
+        Query: {
+          reviews: () => [
+            { id: "1", book: { id: "1" } },
+            { id: "2", book: { id: "missing" } }
+          ]
+        }
+      }
+    });
+
+    const mergedSchema = mergeRemoteSchemas({
+      subschemas: [
+        { name: "books", schema: bookSchema },
+        { name: "reviews", schema: reviewSchema }
+      ]
+    });
+
+    it("should forward extensions and name the subschema", () => {
+      return graphql(
+        mergedSchema,
+        `
+          query {
+            book(id: "missing") {
+              id
+            }
+          }
+        `
+      ).then(result => {
+        expect(result.data).toEqual({ book: null });
+        expect(result.errors!.length).toBe(1);
+        const [error] = result.errors!;
+        expect(error instanceof GraphQLError).toBe(true);
+        expect(error.message).toEqual("Book missing not found");
+        expect(error.path).toEqual(["book"]);
+        expect(error.locations).toEqual([{ line: 3, column: 13 }]);
+        expect(error.extensions).toEqual({
+          code: "NOT_FOUND",
+          subschema: "books"
+        });
+      });
+    });
+
+    it("should map paths through aliases and nested lists", () => {
+      return graphql(
+        mergedSchema,
+        `
+          query {
+            shelves {
+              name: title
+            }
+            list: books {
+              title
+            }
+          }
+        `
+      ).then(result => {
+        expect(result.data).toEqual({
+          shelves: [[{ name: "Dune" }], [{ name: null }]],
+          list: [{ title: "Dune" }, null, { title: null }]
+        });
+        expect(
+          result.errors!.map(({ message, path, extensions }) => ({
+            message,
+            path,
+            extensions
+          }))
+        ).toEqual([
+          {
+            message: "Forbidden",
+            path: ["shelves", 1, 0, "name"],
+            extensions: { code: "FORBIDDEN", subschema: "books" }
+          },
+          {
+            message: "Book 2 not found",
+            path: ["list", 1],
+            extensions: { code: "NOT_FOUND", subschema: "books" }
+          },
+          {
+            message: "Forbidden",
+            path: ["list", 2, "title"],
+            extensions: { code: "FORBIDDEN", subschema: "books" }
+          }
+        ]);
+      });
+    });
+
+    it("should forward errors of merge queries", () => {
+      return graphql(
+        mergedSchema,
+        `
+          query {
+            reviews {
+              book {
+                id
+                title
+              }
+            }
+          }
+        `
+      ).then(result => {
+        expect(result.data).toEqual({
+          reviews: [
+            { book: { id: "1", title: "Dune" } },
+            { book: { id: "missing", title: null } }
+          ]
+        });
+        expect(result.errors!.length).toBe(1);
+        expect(result.errors![0].path).toEqual(["reviews", 1, "book", "title"]);
+        expect(result.errors![0].extensions).toEqual({
+          code: "NOT_FOUND",
+          subschema: "books"
+        });
+      });
+    });
+
+    it("should keep every error of a field", () => {
+      const remoteSchema = makeRemoteExecutableSchema({
+        schema: bookSchema,
+        fetcher: () =>
+          Promise.resolve<any>({
+            data: { book: null },
+            errors: [
+              {
+                message: "No ISBN",
+                path: ["book", "isbn"],
+                extensions: { code: "MISSING_ISBN" }
+              },
+              { message: "Rate limited", extensions: { code: "RATE_LIMITED" } }
+            ]
+          })
+      });
+      return graphql(
+        mergeRemoteSchemas({
+          subschemas: [{ name: "remote", schema: remoteSchema }]
+        }),
+        `
+          query {
+            book(id: "1") {
+              isbn
+            }
+          }
+        `
+      ).then(result => {
+        expect(result.data).toEqual({ book: null });
+        expect(result.errors!.length).toBe(1);
+        expect(result.errors![0].message).toEqual("No ISBN\nRate limited");
+        expect(result.errors![0].path).toEqual(["book"]);
+        expect(result.errors![0].extensions).toEqual({
+          code: "MISSING_ISBN",
+          subschema: "remote",
+          errors: [
+            {
+              message: "No ISBN",
+              path: ["book", "isbn"],
+              extensions: { code: "MISSING_ISBN" }
+            },
+            {
+              message: "Rate limited",
+              path: ["book"],
+              extensions: { code: "RATE_LIMITED" }
+            }
+          ]
+        });
+      });
+    });
+  });
+
+  describe("failures", () => {
+    const bookSchema = makeExecutableSchema({
+      typeDefs: gql`
+        type Query {
+          book(id: ID!): Book
+        }
+
+        type Book {
+          id: ID!
+          title: String!
+        }
+      `,
+      resolvers: {
+        Query: {
+          book: (parent: any, { id }: any) => ({ id, title: "Dune" })
+        }
+      }
+    });
+
+    // A review service that can't be reached.
+    const reviewSchema = makeRemoteExecutableSchema({
+      schema: makeExecutableSchema({
+        typeDefs: gql`
+          type Query {
+            book(id: ID!): Book
+            topReviews: [Review!]!
+          }
+
+          type Review {
+            id: ID!
+            rating: Int!
+          }
+
+          type Book {
+            id: ID!
+            reviews: [Review!]!
+          }
+        `
+      }),
+      fetcher: () => Promise.reject(new Error("connect ECONNREFUSED"))
+    });
+
+    const query = `
+      query {
+        book(id: "1") {
+          title
+          reviews {
+            rating
+          }
+        }
+      }
+    `;
+
+    const mergeWithPolicy = (onFailure?: FailurePolicy) =>
+      mergeRemoteSchemas({
+        subschemas: [
+          { name: "books", schema: bookSchema },
+          { name: "reviews", schema: reviewSchema, onFailure }
+        ]
+      });
+
+    it("should propagate failures by default", () => {
+      return graphql(mergeWithPolicy(), query).then(result => {
+        expect(result.data).toEqual({ book: null });
+        expect(result.errors!.length).toBe(1);
+        expect(result.errors![0].message).toEqual("connect ECONNREFUSED");
+        expect(result.errors![0].path).toEqual(["book", "reviews"]);
+      });
+    });
+
+    it("should make fields nullable and resolve them to null", () => {
+      const mergedSchema = mergeWithPolicy("null");
+      expect(
+        String(mergedSchema.getQueryType()!.getFields().topReviews.type)
+      ).toEqual("[Review!]");
+      expect(
+        String(
+          (mergedSchema.getType("Book") as GraphQLObjectType).getFields()
+            .reviews.type
+        )
+      ).toEqual("[Review!]");
+      return graphql(mergedSchema, query).then(result => {
+        expect(result.data).toEqual({ book: { title: "Dune", reviews: null } });
+        expect(result.errors!.length).toBe(1);
+        expect(result.errors![0].message).toEqual("connect ECONNREFUSED");
+        expect(result.errors![0].path).toEqual(["book", "reviews"]);
+        expect(result.errors![0].extensions).toEqual({ subschema: "reviews" });
+      });
+    });
+
+    it("should resolve failed fields to a fallback value", () => {
+      return graphql(mergeWithPolicy({ fallbackValue: [] }), query).then(
+        result => {
+          expect(result).toEqual({
+            data: { book: { title: "Dune", reviews: [] } }
+          });
+        }
+      );
+    });
+
+    it("should resolve failed fields with a fallback resolver", () => {
+      const fallbackResolver = jasmine
+        .createSpy("fallbackResolver")
+        .and.callFake((error: Error, parent: any) => [
+          { rating: parent.id === "1" ? 5 : 0 }
+        ]);
+      return graphql(mergeWithPolicy({ fallbackResolver }), query).then(
+        result => {
+          expect(result).toEqual({
+            data: { book: { title: "Dune", reviews: [{ rating: 5 }] } }
+          });
+          expect(fallbackResolver).toHaveBeenCalledTimes(1);
+          const [error, , , , info] = fallbackResolver.calls.argsFor(0);
+          expect(error.message).toEqual("connect ECONNREFUSED");
+          expect(info.fieldName).toEqual("reviews");
+        }
+      );
+    });
+
+    it("should time out slow subschemas", () => {
+      const slowSchema = makeExecutableSchema({
+        typeDefs: gql`
+          type Query {
+            recommendations: [String!]!
+          }
+        `,
+        resolvers: {
+          Query: {
+            recommendations: () =>
+              new Promise(resolve => setTimeout(() => resolve(["Dune"]), 100))
+          }
+        }
+      });
+      return graphql(
+        mergeRemoteSchemas({
+          subschemas: [
+            { name: "books", schema: bookSchema },
+            {
+              name: "recommendations",
+              schema: slowSchema,
+              timeout: 10,
+              onFailure: "null"
+            }
+          ]
+        }),
+        `
+          query {
+            book(id: "1") {
+              title
+            }
+            recommendations
+          }
+        `
+      ).then(result => {
+        expect(result.data).toEqual({
+          book: { title: "Dune" },
+          recommendations: null
+        });
+        expect(result.errors!.length).toBe(1);
+        expect(result.errors![0].message).toEqual(
+          "Subschema recommendations timed out after 10ms"
+        );
+        expect(result.errors![0].originalError).toEqual(
+          jasmine.any(SubschemaTimeoutError)
+        );
+        expect(result.errors![0].extensions).toEqual({
+          code: "SUBSCHEMA_TIMEOUT",
+          subschema: "recommendations"
+        });
+      });
+    });
+  });
+
+  describe("transforms", () => {
+    const billingSchema = makeExecutableSchema({
+      typeDefs: gql`
+        type Query {
+          settings: Settings
+          invoice(id: ID!): Invoice
+        }
+
+        type Settings {
+          currency: String
+        }
+
+        type Invoice {
+          id: ID!
+          total: Int
+        }
+      `,
+      resolvers: {
+        Query: {
+          settings: () => ({ currency: "EUR" }),
+          invoice: (parent: any, { id }: any) => ({ id, total: 10 })
+        }
+      }
+    });
+
+    const userSchema = makeExecutableSchema({
+      typeDefs: gql`
+        type Query {
+          settings: Settings
+        }
+
+        enum Settings {
+          PUBLIC
+          PRIVATE
+        }
+      `,
+      resolvers: { Query: { settings: () => "PRIVATE" } }
+    });
+
+    it("should namespace types and root fields", () => {
+      const mergedSchema = mergeRemoteSchemas({
+        subschemas: [
+          {
+            name: "billing",
+            schema: billingSchema,
+            transforms: [createNamespaceTransform("Billing")]
+          },
+          { name: "users", schema: userSchema }
+        ]
+      });
+      expect(mergedSchema.getType("BillingSettings")).toBeDefined();
+      expect(mergedSchema.getType("Settings")).toEqual(
+        jasmine.any(GraphQLEnumType)
+      );
+      return graphql(
+        mergedSchema,
+        `
+          query {
+            settings
+            billingSettings {
+              __typename
+              currency
+            }
+            billingInvoice(id: "1") {
+              total
+            }
+          }
+        `
+      ).then(result => {
+        expect(result).toEqual({
+          data: {
+            settings: "PRIVATE",
+            billingSettings: { __typename: "BillingSettings", currency: "EUR" },
+            billingInvoice: { total: 10 }
+          }
+        });
+      });
+    });
+
+    it("should rename types and root fields", () => {
+      const bookSchema = makeExecutableSchema({
+        typeDefs: gql`
+          type Query {
+            book(id: ID!): Book
+          }
+
+          type Book {
+            id: ID!
+            title: String
+          }
+        `,
+        resolvers: {
+          Query: {
+            book: (parent: any, { id }: any) => ({ id, title: "Dune" })
+          }
+        }
+      });
+      const productSchema = makeExecutableSchema({
+        typeDefs: gql`
+          type Query {
+            product(id: ID!): Product
+          }
+
+          type Product {
+            id: ID!
+            stock: Int
+          }
+        `,
+        resolvers: {
+          Query: { product: (parent: any, { id }: any) => ({ id, stock: 3 }) }
+        }
+      });
+      const mergedSchema = mergeRemoteSchemas({
+        subschemas: [
+          { name: "books", schema: bookSchema },
+          {
+            name: "inventory",
+            schema: productSchema,
+            transforms: [
+              createRenameTypesTransform({ Product: "Book" }),
+              createRenameRootFieldsTransform({
+                "Query.product": "stockedBook"
+              })
+            ],
+            merge: { Book: { fieldName: "stockedBook" } }
+          }
+        ]
+      });
+      expect(mergedSchema.getType("Product")).toBeUndefined();
+      return graphql(
+        mergedSchema,
+        `
+          query {
+            book(id: "1") {
+              title
+              stock
+            }
+            stockedBook(id: "2") {
+              __typename
+              stock
+            }
+          }
+        `
+      ).then(result => {
+        expect(result).toEqual({
+          data: {
+            book: { title: "Dune", stock: 3 },
+            stockedBook: { __typename: "Book", stock: 3 }
+          }
+        });
+      });
+    });
+
+    it("should hide types and fields", () => {
+      const mergedSchema = mergeRemoteSchemas({
+        subschemas: [
+          {
+            name: "billing",
+            schema: billingSchema,
+            transforms: [createHideTransform(["Settings", "Invoice.total"])]
+          },
+          { name: "users", schema: userSchema }
+        ]
+      });
+      expect(Object.keys(mergedSchema.getQueryType()!.getFields())).toEqual([
+        "invoice",
+        "settings"
+      ]);
+      expect(mergedSchema.getType("Settings")).toEqual(
+        jasmine.any(GraphQLEnumType)
+      );
+      expect(
+        Object.keys(
+          (mergedSchema.getType("Invoice") as GraphQLObjectType).getFields()
+        )
+      ).toEqual(["id"]);
+      return graphql(
+        mergedSchema,
+        `
+          query {
+            settings
+            invoice(id: "1") {
+              id
+            }
+          }
+        `
+      ).then(result => {
+        expect(result).toEqual({
+          data: { settings: "PRIVATE", invoice: { id: "1" } }
+        });
+      });
+    });
+
+    it("should hide types that are left without fields", () => {
+      const mergedSchema = mergeRemoteSchemas({
+        subschemas: [
+          {
+            name: "billing",
+            schema: billingSchema,
+            transforms: [createHideTransform(["Settings.currency"])]
+          },
+          { name: "users", schema: userSchema }
+        ]
+      });
+      expect(mergedSchema.getType("Settings")).toEqual(
+        jasmine.any(GraphQLEnumType)
+      );
+    });
+
+    it("should throw when hiding an unknown type or field", () => {
+      expect(() =>
+        mergeRemoteSchemas({
+          subschemas: [
+            {
+              name: "billing",
+              schema: billingSchema,
+              transforms: [createHideTransform(["Invoice.amount"])]
+            }
+          ]
+        })
+      ).toThrowError(
+        "Can't hide Invoice.amount, it isn't defined in the schema"
+      );
+    });
+  });
+
+  describe("routing", () => {
+    const createShardSchema = (region: string) =>
+      makeExecutableSchema({
+        typeDefs: gql`
+          type Query {
+            order(id: ID!): Order
+            orders: [Order!]!
+          }
+
+          type Order {
+            id: ID!
+            region: String!
+          }
+        `,
+        resolvers: {
+          Query: {
+            order: (parent: any, { id }: any) =>
+              id.startsWith(region) ? { id, region } : null,
+            orders: () => [
+              { id: `${region}-1`, region },
+              { id: `${region}-2`, region }
+            ]
+          }
+        }
+      });
+
+    const subschemas = [
+      { name: "eu", schema: createShardSchema("eu") },
+      { name: "us", schema: createShardSchema("us") }
+    ];
+
+    it("should send root fields to the first owner by default", () => {
+      return graphql(
+        mergeRemoteSchemas({ subschemas }),
+        `
+          query {
+            order(id: "us-1") {
+              region
+            }
+          }
+        `
+      ).then(result => {
+        expect(result).toEqual({ data: { order: null } });
+      });
+    });
+
+    it("should route root fields by arguments", () => {
+      return graphql(
+        mergeRemoteSchemas({
+          subschemas,
+          routing: {
+            "Query.order": ({ id }) => (id.startsWith("eu") ? "eu" : "us")
+          }
+        }),
+        `
+          query {
+            eu: order(id: "eu-1") {
+              region
+            }
+            us: order(id: "us-1") {
+              region
+            }
+          }
+        `
+      ).then(result => {
+        expect(result).toEqual({
+          data: { eu: { region: "eu" }, us: { region: "us" } }
+        });
+      });
+    });
+
+    it("should route root fields by context", () => {
+      return graphql(
+        mergeRemoteSchemas({
+          subschemas,
+          routing: {
+            "Query.orders": (args, context) => context.region
+          }
+        }),
+        `
+          query {
+            orders {
+              id
+            }
+          }
+        `,
+        undefined,
+        { region: "us" }
+      ).then(result => {
+        expect(result).toEqual({
+          data: { orders: [{ id: "us-1" }, { id: "us-2" }] }
+        });
+      });
+    });
+
+    it("should send root fields to all owners and combine the results", () => {
+      return graphql(
+        mergeRemoteSchemas({
+          subschemas,
+          routing: { "Query.order": "all", "Query.orders": "all" }
+        }),
+        `
+          query {
+            order(id: "us-1") {
+              region
+            }
+            orders {
+              id
+            }
+          }
+        `
+      ).then(result => {
+        expect(result).toEqual({
+          data: {
+            order: { region: "us" },
+            orders: [
+              { id: "eu-1" },
+              { id: "eu-2" },
+              { id: "us-1" },
+              { id: "us-2" }
+            ]
+          }
+        });
+      });
+    });
+
+    it("should report routes to subschemas that don't declare the field", () => {
+      return graphql(
+        mergeRemoteSchemas({
+          subschemas,
+          routing: { "Query.orders": () => ["eu", "asia"] }
+        }),
+        `
+          query {
+            orders {
+              id
+            }
+          }
+        `
+      ).then(result => {
+        expect(result.errors![0].message).toEqual(
+          "Subschema asia can't resolve Query.orders, it's only declared by eu, us"
+        );
+      });
+    });
+
+    it("should throw when routing an unknown root field", () => {
+      expect(() =>
+        mergeRemoteSchemas({
+          subschemas,
+          routing: { "Query.customer": "all" }
+        })
+      ).toThrowError("Can't route Query.customer, it isn't a root field");
+    });
+  });
+
+  describe("required fields", () => {
+    const orderSchema = makeExecutableSchema({
+      typeDefs: gql`
+        type Query {
+          order(id: ID!): Order
+        }
+
+        type Order {
+          id: ID!
+          weight: Int!
+          destination: String!
+        }
+      `,
+      resolvers: {
+        Query: {
+          order: (parent: any, { id }: any) => ({
+            id,
+            weight: 2,
+            destination: "NL"
+          })
+        }
+      }
+    });
+
+    const shippingResolvers = {
+      Order: {
+        shippingEstimate: ({ weight, destination }: any) =>
+          weight * (destination === "NL" ? 1 : 3)
+      }
+    };
+
+    it("should pass required fields to merge queries", () => {
+      const { schema: shippingSchema, lookup } = createLookupService({
+        typeDefs: [
+          mergeHintTypeDefs,
+          `
+            type Query {
+              orderShipping(id: ID!, weight: Int!, destination: String!): Order
+            }
+
+            type Order @mergeQuery(field: "orderShipping") {
+              id: ID!
+              shippingEstimate: Int @requires(fields: "weight destination")
+            }
+          `
+        ],
+        fieldName: "orderShipping",
+        lookUp: args => ({ ...args }),
+        resolvers: shippingResolvers
+      });
+      return graphql(
+        mergeRemoteSchemas({
+          subschemas: [
+            { name: "orders", schema: orderSchema },
+            { name: "shipping", schema: shippingSchema }
+          ]
+        }),
+        `
+          query {
+            order(id: "1") {
+              shippingEstimate
+            }
+          }
+        `
+      ).then(result => {
+        expect(result).toEqual({ data: { order: { shippingEstimate: 2 } } });
+        expect(lookup).toHaveBeenCalledTimes(1);
+        expect(lookup.calls.argsFor(0)[1]).toEqual({
+          id: "1",
+          weight: 2,
+          destination: "NL"
+        });
+      });
+    });
+
+    it("should fetch required fields the parent is missing", () => {
+      const { schema: shippingSchema, lookup } = createLookupService({
+        typeDefs: `
+          type Query {
+            orderShipping(representation: OrderRepresentation!): Order
+          }
+
+          input OrderRepresentation {
+            id: ID!
+            weight: Int!
+            destination: String!
+          }
+
+          type Order {
+            id: ID!
+            shippingEstimate: Int
+          }
+        `,
+        fieldName: "orderShipping",
+        lookUp: ({ representation }) => ({ ...representation }),
+        resolvers: shippingResolvers
+      });
+      const promotionSchema = makeExecutableSchema({
+        typeDefs: gql`
+          type Query {
+            orderOfTheDay: Order
+          }
+
+          type Order {
+            id: ID!
+          }
+        `,
+        resolvers: { Query: { orderOfTheDay: () => ({ id: "2" }) } }
+      });
+      return graphql(
+        mergeRemoteSchemas({
+          subschemas: [
+            { name: "orders", schema: orderSchema },
+            {
+              name: "shipping",
+              schema: shippingSchema,
+              merge: {
+                Order: {
+                  fieldName: "orderShipping",
+                  keyArg: "representation",
+                  requires: { shippingEstimate: "weight destination" }
+                }
+              }
+            },
+            { name: "promotions", schema: promotionSchema }
+          ]
+        }),
+        `
+          query {
+            orderOfTheDay {
+              id
+              shippingEstimate
+            }
+          }
+        `
+      ).then(result => {
+        expect(result).toEqual({
+          data: { orderOfTheDay: { id: "2", shippingEstimate: 2 } }
+        });
+        expect(lookup.calls.argsFor(0)[1]).toEqual({
+          representation: { id: "2", weight: 2, destination: "NL" }
+        });
+      });
+    });
+
+    it("should read required fields from top-level merge config", () => {
+      const { schema: shippingSchema, lookup } = createLookupService({
+        typeDefs: [
+          mergeHintTypeDefs,
+          `
+            type Query {
+              orderShipping(id: ID!, weight: Int!, destination: String!): Order
+            }
+
+            type Order @mergeQuery(field: "orderShipping") {
+              id: ID!
+              shippingEstimate: Int
+            }
+          `
+        ],
+        fieldName: "orderShipping",
+        lookUp: args => ({ ...args }),
+        resolvers: shippingResolvers
+      });
+      return graphql(
+        mergeRemoteSchemas({
+          subschemas: [
+            { name: "orders", schema: orderSchema },
+            { name: "shipping", schema: shippingSchema }
+          ],
+          merge: {
+            Order: { requires: { shippingEstimate: "weight destination" } }
+          }
+        }),
+        `
+          query {
+            order(id: "1") {
+              shippingEstimate
+            }
+          }
+        `
+      ).then(result => {
+        expect(result).toEqual({ data: { order: { shippingEstimate: 2 } } });
+        expect(lookup.calls.argsFor(0)[1]).toEqual({
+          id: "1",
+          weight: 2,
+          destination: "NL"
+        });
+      });
+    });
+
+    it("should throw when requiring fields for an unknown field", () => {
+      expect(() =>
+        mergeRemoteSchemas({
+          subschemas: [
+            {
+              name: "orders",
+              schema: orderSchema,
+              merge: { Order: { requires: { shippingCost: "weight" } } }
+            }
+          ]
+        })
+      ).toThrowError(
+        "Field Order.shippingCost requires other fields but doesn't exist"
+      );
+    });
+  });
+
+  describe("abstract types", () => {
+    const catalogNodes: { [id: string]: any } = {
+      "1": { id: "1", title: "Dune" },
+      "2": { id: "2", title: "Emma" },
+      a: { id: "a", name: "Frank" }
+    };
+    const resolveCatalogType = (value: any) =>
+      value.title ? "Book" : "Author";
+
+    const catalogTypeDefs = gql`
+      type Query {
+        node(id: ID!): Node
+        nodes(ids: [ID!]!): [Node]!
+        search: [SearchResult]
+      }
+
+      interface Node {
+        id: ID!
+      }
+
+      union SearchResult = Book | Author
+
+      type Book implements Node {
+        id: ID!
+        title: String
+      }
+
+      type Author implements Node {
+        id: ID!
+        name: String
+      }
+    `;
+
+    const catalogResolvers = {
+      Query: {
+        node: (parent: any, { id }: any) => catalogNodes[id],
+        search: () => [catalogNodes["1"], catalogNodes.a]
+      },
+      Node: { __resolveType: resolveCatalogType },
+      SearchResult: { __resolveType: resolveCatalogType }
+    };
+
+    const lookUpNodes = ({ ids }: any) =>
+      ids.map((id: string) => catalogNodes[id]);
+
+    const reviewSchema = makeExecutableSchema({
+      typeDefs: gql`
+        type Query {
+          book(id: ID!): Book
+          reviewSearch: [SearchResult]
+        }
+
+        union SearchResult = Review | Book
+
+        type Review {
+          id: ID!
+          body: String
+        }
+
+        type Book {
+          id: ID!
+          reviews: [Review]
+        }
+      `,
+      resolvers: {
+        Query: {
+          book: (parent: any, { id }: any) => ({
+            id,
+            reviews: [{ id: `r${id}`, body: "Great" }]
+          }),
+          reviewSearch: () => [
+            { id: "r1", body: "Great" },
+            { id: "1" },
+            { id: "2" }
+          ]
+        },
+        SearchResult: {
+          __resolveType: (value: any) => (value.body ? "Review" : "Book")
+        }
+      }
+    });
+
+    it("should resolve abstract types returned by any service", () => {
+      const { schema: catalogSchema } = createLookupService({
+        typeDefs: catalogTypeDefs,
+        fieldName: "nodes",
+        lookUp: lookUpNodes,
+        resolvers: catalogResolvers
+      });
+      return graphql(
+        mergeRemoteSchemas({
+          subschemas: [
+            {
+              name: "catalog",
+              schema: catalogSchema,
+              merge: { Book: { fieldName: "node" } }
+            },
+            { name: "reviews", schema: reviewSchema }
+          ],
+          onConflict: "first-wins"
+        }),
+        `
+          query {
+            search {
+              __typename
+              ... on Book {
+                title
+                reviews {
+                  body
+                }
+              }
+              ... on Author {
+                name
+              }
+              ... on Review {
+                body
+              }
+            }
+          }
+        `
+      ).then(result => {
+        expect(result).toEqual({
+          data: {
+            search: [
+              {
+                __typename: "Book",
+                title: "Dune",
+                reviews: [{ body: "Great" }]
+              },
+              { __typename: "Author", name: "Frank" }
+            ]
+          }
+        });
+      });
+    });
+
+    it("should look up merged types through interfaces", () => {
+      const { schema: catalogSchema, lookup: nodes } = createLookupService({
+        typeDefs: catalogTypeDefs,
+        fieldName: "nodes",
+        lookUp: lookUpNodes,
+        resolvers: catalogResolvers
+      });
+      return graphql(
+        mergeRemoteSchemas({
+          subschemas: [
+            {
+              name: "catalog",
+              schema: catalogSchema,
+              merge: { Book: { fieldName: "node", batchFieldName: "nodes" } }
+            },
+            { name: "reviews", schema: reviewSchema }
+          ],
+          onConflict: "first-wins"
+        }),
+        `
+          query {
+            reviewSearch {
+              __typename
+              ... on Review {
+                body
+              }
+              ... on Book {
+                title
+              }
+            }
+          }
+        `
+      ).then(result => {
+        expect(result).toEqual({
+          data: {
+            reviewSearch: [
+              { __typename: "Review", body: "Great" },
+              { __typename: "Book", title: "Dune" },
+              { __typename: "Book", title: "Emma" }
+            ]
+          }
+        });
+        expect(nodes).toHaveBeenCalledTimes(1);
+        expect(nodes.calls.argsFor(0)[1]).toEqual({ ids: ["1", "2"] });
+      });
+    });
+  });
+
+  describe("federation", () => {
+    const federationTypeDefs = `
+      scalar _Any
+
+      type _Service {
+        sdl: String
+      }
+    `;
+
+    const productSchema = makeExecutableSchema({
+      typeDefs: [
+        federationTypeDefs,
+        `
+          type Query {
+            topProducts: [Product]
+            _entities(representations: [_Any!]!): [_Entity]!
+            _service: _Service!
+          }
+
+          union _Entity = Product
+
+          type Product {
+            upc: String!
+            name: String
+            weight: Int
+          }
+        `
+      ],
+      resolvers: {
+        Query: {
+          topProducts: () => [
+            { upc: "1", name: "Table", weight: 10 },
+            { upc: "2", name: "Chair", weight: 3 }
+          ],
+          _service: () => ({
+            sdl: `
+              type Product @key(fields: "upc") {
+                upc: String!
+                name: String
+                weight: Int
+              }
+
+              extend type Query {
+                topProducts: [Product]
+              }
+            `
+          })
+        },
+        _Entity: { __resolveType: ({ __typename }: any) => __typename }
+      }
+    });
+
+    const reviewSchema = makeExecutableSchema({
+      typeDefs: gql`
+        type Query {
+          product(upc: String!): Product
+        }
+
+        type Product {
+          upc: String!
+          rating: Int
+        }
+      `,
+      resolvers: {
+        Query: {
+          product: (parent: any, { upc }: any) => ({ upc, rating: 4 })
+        }
+      }
+    });
+
+    it("should look up entities of federated services", () => {
+      const { schema: shippingSchema, lookup: entities } = createLookupService({
+        typeDefs: [
+          federationTypeDefs,
+          `
+            type Query {
+              _entities(representations: [_Any!]!): [_Entity]!
+              _service: _Service!
+            }
+
+            union _Entity = Product
+
+            type Product {
+              upc: String!
+              weight: Int
+              shippingEstimate: Int
+              inStock: Boolean
+            }
+          `
+        ],
+        fieldName: "_entities",
+        lookUp: ({ representations }) =>
+          representations.map((representation: any) => ({ ...representation })),
+        resolvers: {
+          Query: {
+            _service: () => ({
+              sdl: `
+                extend type Product @key(fields: "upc") {
+                  upc: String! @external
+                  weight: Int @external
+                  shippingEstimate: Int @requires(fields: "weight")
+                  inStock: Boolean
+                }
+              `
+            })
+          },
+          _Entity: { __resolveType: ({ __typename }: any) => __typename },
+          Product: {
+            shippingEstimate: ({ weight }: any) => weight * 2,
+            inStock: ({ upc }: any) => upc === "1"
+          }
+        }
+      });
+      return Promise.all([
+        createFederatedSubschema({ name: "products", schema: productSchema }),
+        createFederatedSubschema({
+          name: "shipping",
+          schema: shippingSchema
+        })
+      ])
+        .then(federatedSubschemas =>
+          mergeRemoteSchemas({
+            subschemas: [
+              ...federatedSubschemas,
+              {
+                name: "reviews",
+                schema: reviewSchema,
+                merge: { Product: { key: "upc" } }
+              }
+            ]
+          })
+        )
+        .then(mergedSchema => {
+          expect(
+            Object.keys(mergedSchema.getQueryType()!.getFields())
+          ).toEqual(["topProducts", "product"]);
+          expect(mergedSchema.getType("_Entity")).toBeUndefined();
+          return graphql(
+            mergedSchema,
+            `
+              query {
+                topProducts {
+                  name
+                  inStock
+                  shippingEstimate
+                  rating
+                }
+              }
+            `
+          );
+        })
+        .then(result => {
+          expect(result).toEqual({
+            data: {
+              topProducts: [
+                {
+                  name: "Table",
+                  inStock: true,
+                  shippingEstimate: 20,
+                  rating: 4
+                },
+                {
+                  name: "Chair",
+                  inStock: false,
+                  shippingEstimate: 6,
+                  rating: 4
+                }
+              ]
+            }
+          });
+          const representations = entities.calls
+            .allArgs()
+            .map(args => args[1].representations);
+          expect(representations).toContain([
+            { __typename: "Product", upc: "1" },
+            { __typename: "Product", upc: "2" }
+          ]);
+          expect(representations).toContain([
+            { __typename: "Product", upc: "1", weight: 10 },
+            { __typename: "Product", upc: "2", weight: 3 }
+          ]);
+        });
+    });
+
+    it("should throw when a service doesn't provide its SDL", () => {
+      return createFederatedSubschema({
+        name: "reviews",
+        schema: reviewSchema
+      }).then(
+        () => fail("Expected an error"),
+        error => {
+          expect(error.message).toEqual(
+            'Can\'t read the SDL of subschema reviews: Cannot query field "_service" on type "Query".'
+          );
+        }
+      );
+    });
+  });
+
+  describe("context and requests", () => {
+    const bookSchema = makeExecutableSchema({
+      typeDefs: gql`
+        type Query {
+          book(id: ID!): Book
+        }
+
+        type Book {
+          id: ID!
+          title: String!
+        }
+      `,
+      resolvers: {
+        Query: {
+          book: (parent: any, { id }: any) => ({ id, title: `Book ${id}` })
+        }
+      }
+    });
+
+    // Records the context and variables each request is sent with.
+    const createReviewSchema = (requests: any[]) =>
+      makeRemoteExecutableSchema({
+        schema: makeExecutableSchema({
+          typeDefs: gql`
+            type Query {
+              book(id: ID!): Book
+            }
+
+            type Book {
+              id: ID!
+              rating: Int!
+            }
+          `
+        }),
+        fetcher: ({ context, variables }) => {
+          requests.push({ context, variables });
+          const id = Object.values(variables || {})[0];
+          return Promise.resolve({ data: { book: { id, rating: 4 } } });
+        }
+      });
+
+    const query = `
+      query {
+        book(id: "1") {
+          title
+          rating
+        }
+      }
+    `;
+
+    it("should pass each subschema its own context", () => {
+      const requests: any[] = [];
+      const transformContext = jasmine
+        .createSpy("transformContext")
+        .and.callFake((context: any) =>
+          Promise.resolve({ headers: { authorization: context.token } })
+        );
+      return graphql(
+        mergeRemoteSchemas({
+          subschemas: [
+            { name: "books", schema: bookSchema },
+            {
+              name: "reviews",
+              schema: createReviewSchema(requests),
+              transformContext
+            }
+          ]
+        }),
+        query,
+        null,
+        { token: "Bearer abc" }
+      ).then(result => {
+        expect(result).toEqual({
+          data: { book: { title: "Book 1", rating: 4 } }
+        });
+        expect(transformContext).toHaveBeenCalledTimes(1);
+        expect(requests.map(({ context }) => context.graphqlContext)).toEqual([
+          { headers: { authorization: "Bearer abc" } }
+        ]);
+      });
+    });
+
+    it("should let subschemas rewrite requests", () => {
+      const requests: any[] = [];
+      const reviewSchema = createReviewSchema(requests);
+      return graphql(
+        mergeRemoteSchemas({
+          subschemas: [
+            {
+              name: "reviews",
+              schema: reviewSchema,
+              transformRequest: request => ({
+                ...request,
+                variables: Object.keys(request.variables).reduce(
+                  (variables, name) => ({ ...variables, [name]: "2" }),
+                  {}
+                )
+              })
+            }
+          ]
+        }),
+        `
+          query {
+            book(id: "1") {
+              id
+            }
+          }
+        `
+      ).then(result => {
+        expect(result).toEqual({ data: { book: { id: "2" } } });
+        expect(
+          requests.map(({ variables }) => Object.values(variables))
+        ).toEqual([["2"]]);
+      });
+    });
+
+    it("should let subschemas block requests", () => {
+      const requests: any[] = [];
+      return graphql(
+        mergeRemoteSchemas({
+          subschemas: [
+            { name: "books", schema: bookSchema },
+            {
+              name: "reviews",
+              schema: createReviewSchema(requests),
+              onFailure: "null",
+              transformContext: () => {
+                throw new Error("Reviews aren't available to guests");
+              }
+            }
+          ]
+        }),
+        query
+      ).then(result => {
+        expect(result.data).toEqual({
+          book: { title: "Book 1", rating: null }
+        });
+        expect(result.errors!.map(({ message }) => message)).toEqual([
+          "Reviews aren't available to guests"
+        ]);
+        expect(requests).toEqual([]);
+      });
+    });
+  });
+
+  describe("entity cache", () => {
+    const bookSchema = makeExecutableSchema({
+      typeDefs: gql`
+        type Query {
+          bestsellers: [Book!]!
+        }
+
+        type Book {
+          id: ID!
+          title: String!
+        }
+      `,
+      resolvers: {
+        Query: {
+          bestsellers: () => [
+            { id: "1", title: "Dune" },
+            { id: "2", title: "Emma" }
+          ]
+        }
+      }
+    });
+
+    const inventoryTypeDefs = `
+      type Query {
+        books(ids: [ID!]!): [Book]!
+      }
+
+      type Book @cacheControl(maxAge: 60) {
+        id: ID!
+        price: Int!
+      }
+    `;
+
+    const createInventory = (typeDefs: string) =>
+      createLookupService({
+        typeDefs: [
+          "directive @cacheControl(maxAge: Int) on OBJECT | FIELD_DEFINITION",
+          typeDefs
+        ],
+        fieldName: "books",
+        lookUp: ({ ids }) =>
+          ids.map((id: string) => ({ id, price: Number(id) * 10, stock: 3 }))
+      });
+
+    const query = "{ bestsellers { title price } }";
+
+    it("should answer repeated lookups from the cache", () => {
+      const inventory = createInventory(inventoryTypeDefs);
+      const schema = mergeRemoteSchemas({
+        subschemas: [
+          { name: "books", schema: bookSchema },
+          { name: "inventory", schema: inventory.schema }
+        ],
+        cache: true
+      });
+      return graphql(schema, query)
+        .then(() => graphql(schema, query))
+        .then(result => {
+          expect(result).toEqual({
+            data: {
+              bestsellers: [
+                { title: "Dune", price: 10 },
+                { title: "Emma", price: 20 }
+              ]
+            }
+          });
+          expect(inventory.lookup).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    it("should use per-type maxAges and a custom store", () => {
+      const inventory = createInventory(inventoryTypeDefs);
+      const store = jasmine.createSpyObj("store", ["get", "set"]);
+      const schema = mergeRemoteSchemas({
+        subschemas: [
+          { name: "books", schema: bookSchema },
+          {
+            name: "inventory",
+            schema: inventory.schema,
+            merge: { Book: { maxAge: 30 } }
+          }
+        ],
+        cache: store
+      });
+      return graphql(schema, "{ bestsellers { price } }").then(() => {
+        expect(store.get).toHaveBeenCalledTimes(2);
+        expect(store.set).toHaveBeenCalledTimes(2);
+        expect(store.set.calls.argsFor(0)).toEqual([
+          JSON.stringify([
+            "inventory",
+            "Book",
+            "1",
+            { selection: ["price"], variables: {} }
+          ]),
+          { price: 10, id: "1" },
+          30
+        ]);
+      });
+    });
+
+    it("should keep entries of different scopes apart", () => {
+      const inventory = createInventory(inventoryTypeDefs);
+      const schema = mergeRemoteSchemas({
+        subschemas: [
+          { name: "books", schema: bookSchema },
+          { name: "inventory", schema: inventory.schema }
+        ],
+        cache: true,
+        cacheScope: context => context.tenant
+      });
+      return graphql(schema, query, null, { tenant: "a" })
+        .then(() => graphql(schema, query, null, { tenant: "b" }))
+        .then(() => graphql(schema, query, null, { tenant: "a" }))
+        .then(() => {
+          expect(inventory.lookup).toHaveBeenCalledTimes(2);
+        });
+    });
+
+    it("should treat errors of the store as misses", () => {
+      const inventory = createInventory(inventoryTypeDefs);
+      const store = {
+        get: () => Promise.reject(new Error("ECONNRESET")),
+        set: () => {
+          throw new Error("ECONNRESET");
+        }
+      };
+      const schema = mergeRemoteSchemas({
+        subschemas: [
+          { name: "books", schema: bookSchema },
+          { name: "inventory", schema: inventory.schema }
+        ],
+        cache: store
+      });
+      return graphql(schema, "{ bestsellers { price } }").then(result => {
+        expect(result).toEqual({
+          data: { bestsellers: [{ price: 10 }, { price: 20 }] }
+        });
+      });
+    });
+
+    it("should only cache fields that all have a maxAge", () => {
+      const inventory = createInventory(`
+        type Query {
+          books(ids: [ID!]!): [Book]!
+        }
+
+        type Book @cacheControl(maxAge: 60) {
+          id: ID!
+          price: Int!
+          stock: Int! @cacheControl(maxAge: 0)
+        }
+      `);
+      const schema = mergeRemoteSchemas({
+        subschemas: [
+          { name: "books", schema: bookSchema },
+          { name: "inventory", schema: inventory.schema }
+        ],
+        cache: true
+      });
+      const stockQuery = "{ bestsellers { price stock } }";
+      return graphql(schema, stockQuery)
+        .then(() => graphql(schema, stockQuery))
+        .then(() => {
+          expect(inventory.lookup).toHaveBeenCalledTimes(2);
+        });
+    });
+
+    it("should expire entries of the in-memory store", () => {
+      jasmine.clock().install();
+      jasmine.clock().mockDate(new Date(0));
+      try {
+        const store = createInMemoryCacheStore();
+        store.set("key", "value", 60);
+        jasmine.clock().tick(59000);
+        expect(store.get("key")).toEqual("value");
+        jasmine.clock().tick(1000);
+        expect(store.get("key")).toBeUndefined();
+      } finally {
+        jasmine.clock().uninstall();
+      }
+    });
+
+    it("should evict entries of the in-memory store when it's full", () => {
+      jasmine.clock().install();
+      jasmine.clock().mockDate(new Date(0));
+      try {
+        const store = createInMemoryCacheStore({ maxEntries: 2 });
+        store.set("expiring", "value", 1);
+        store.set("first", "value", 60);
+        jasmine.clock().tick(1000);
+        store.set("second", "value", 60);
+        expect(store.get("first")).toEqual("value");
+        store.set("third", "value", 60);
+        expect(store.get("second")).toBeUndefined();
+        expect(store.get("first")).toEqual("value");
+        expect(store.get("third")).toEqual("value");
+      } finally {
+        jasmine.clock().uninstall();
+      }
+    });
+  });
+
+  describe("instrumentation", () => {
+    const bookSchema = makeExecutableSchema({
+      typeDefs: gql`
+        type Query {
+          bestsellers: [Book!]!
+        }
+
+        type Book {
+          id: ID!
+          title: String!
+        }
+      `,
+      resolvers: {
+        Query: {
+          bestsellers: () => [
+            { id: "1", title: "Dune" },
+            { id: "2", title: "Emma" }
+          ]
+        }
+      }
+    });
+
+    const createReviewSchema = (fetcher: () => Promise<ExecutionResult>) =>
+      makeRemoteExecutableSchema({
+        schema: makeExecutableSchema({
+          typeDefs: gql`
+            type Query {
+              books(ids: [ID!]!): [Book]!
+            }
+
+            type Book {
+              id: ID!
+              rating: Int!
+            }
+          `
+        }),
+        fetcher
+      });
+
+    const createInstrumentation = () => {
+      const events: string[] = [];
+      const instrumentation: Instrumentation = {
+        start: ({ subschema, kind, fieldName }) => {
+          events.push(`start ${subschema} ${kind} ${fieldName}`);
+          return `${subschema}.${fieldName}`;
+        },
+        end: ({ duration }, started) => {
+          expect(duration).toEqual(jasmine.any(Number));
+          events.push(`end ${started}`);
+        },
+        error: ({ error }, started) => {
+          events.push(`error ${started}: ${error.message}`);
+        }
+      };
+      return { events, instrumentation };
+    };
+
+    it("should call hooks around root fields and merge queries", () => {
+      const { events, instrumentation } = createInstrumentation();
+      const end = spyOn(instrumentation, "end").and.callThrough();
+      const reviewSchema = createReviewSchema(() =>
+        Promise.resolve({
+          data: {
+            books: [
+              { id: "1", rating: 5 },
+              { id: "2", rating: 3 }
+            ]
+          }
+        })
+      );
+      return graphql(
+        mergeRemoteSchemas({
+          subschemas: [
+            { name: "books", schema: bookSchema },
+            { name: "reviews", schema: reviewSchema }
+          ],
+          instrumentation
+        }),
+        "{ bestsellers { rating } }"
+      ).then(result => {
+        expect(result).toEqual({
+          data: { bestsellers: [{ rating: 5 }, { rating: 3 }] }
+        });
+        expect(events).toEqual([
+          "start books root bestsellers",
+          "end books.bestsellers",
+          "start reviews merge books",
+          "end reviews.books"
+        ]);
+        expect(end.calls.argsFor(1)[0]).toEqual(
+          jasmine.objectContaining({
+            operation: "query",
+            args: { ids: ["1", "2"] },
+            result: [
+              { id: "1", rating: 5 },
+              { id: "2", rating: 3 }
+            ]
+          })
+        );
+      });
+    });
+
+    it("should call the error hook when a subschema fails", () => {
+      const { events, instrumentation } = createInstrumentation();
+      const reviewSchema = createReviewSchema(() =>
+        Promise.reject(new Error("connect ECONNREFUSED"))
+      );
+      return graphql(
+        mergeRemoteSchemas({
+          subschemas: [
+            { name: "books", schema: bookSchema },
+            { name: "reviews", schema: reviewSchema }
+          ],
+          instrumentation
+        }),
+        "{ bestsellers { rating } }"
+      ).then(result => {
+        expect(result.errors).toBeDefined();
+        expect(events).toEqual([
+          "start books root bestsellers",
+          "end books.bestsellers",
+          "start reviews merge books",
+          "error reviews.books: connect ECONNREFUSED"
+        ]);
+      });
+    });
+  });
+
+  describe("composition report", () => {
+    const userSchema = makeExecutableSchema({
+      typeDefs: gql`
+        type Query {
+          user(id: ID!): User
+        }
+
+        type User {
+          id: ID!
+          name: String
+        }
+      `
+    });
+
+    const postSchema = makeExecutableSchema({
+      typeDefs: [
+        mergeHintTypeDefs,
+        `
+          type Query {
+            userPosts(ids: [ID!]!): [User]
+            posts: [Post]
+          }
+
+          type User @mergeQuery(field: "user", batchField: "userPosts") {
+            id: ID!
+            name: String
+            posts: [Post]
+          }
+
+          type Post {
+            id: ID!
+            title: String
+          }
+        `
+      ]
+    });
+
+    const mergeWithReport = () =>
+      mergeRemoteSchemasWithReport({
+        subschemas: [
+          { name: "users", schema: userSchema },
+          { name: "posts", schema: postSchema }
+        ],
+        onConflict: "first-wins"
+      });
+
+    it("should report which subschema owns each field", () => {
+      const { report } = mergeWithReport();
+      expect(report.types.User).toEqual({
+        kind: "Object",
+        owner: "users",
+        subschemas: ["users", "posts"],
+        fields: {
+          id: {
+            owners: ["users"],
+            subschemas: ["users", "posts"],
+            shadowed: ["posts"],
+            lookup: { fieldName: "user", key: "id" }
+          },
+          name: {
+            owners: ["users"],
+            subschemas: ["users", "posts"],
+            shadowed: ["posts"],
+            lookup: { fieldName: "user", key: "id" }
+          },
+          posts: {
+            owners: ["posts"],
+            subschemas: ["posts"],
+            shadowed: [],
+            lookup: {
+              fieldName: "user",
+              batchFieldName: "userPosts",
+              key: "id"
+            }
+          }
+        }
+      });
+      expect(report.types.Query.fields.posts).toEqual({
+        owners: ["posts"],
+        subschemas: ["posts"],
+        shadowed: []
+      });
+    });
+
+    it("should report skipped types", () => {
+      const { report } = mergeWithReport();
+      expect(report.skippedTypes).toContain({
+        typeName: "ID",
+        subschemas: ["users", "posts"],
+        reason: "built-in scalar"
+      });
+    });
+
+    it("should print the merged schema annotated with its owners", () => {
+      const { schema, report } = mergeWithReport();
+      const sdl = printAnnotatedSchema(schema, report);
+      expect(sdl).toContain(
+        "# Skipped ID (built-in scalar) declared by users, posts"
+      );
+      expect(sdl).toContain(
+        'type User @merged(owners: ["users"], subschemas: ["users", "posts"])'
+      );
+      expect(sdl).toContain(
+        'posts: [Post] @merged(owners: ["posts"], subschemas: ["posts"], lookup: "user", batchLookup: "userPosts", key: "id")'
+      );
+      expect(() => buildSchema(sdl)).not.toThrow();
+    });
+  });
+
+  describe("query cost", () => {
+    const bookSchema = makeExecutableSchema({
+      typeDefs: gql`
+        type Query {
+          bestsellers: [Book!]!
+        }
+
+        type Book {
+          id: ID!
+          title: String!
+        }
+      `
+    });
+
+    const reviewSchema = makeExecutableSchema({
+      typeDefs: gql`
+        type Query {
+          book(id: ID!): Book
+        }
+
+        type Book {
+          id: ID!
+          rating: Int!
+          reviews: [Review!]!
+        }
+
+        type Review {
+          id: ID!
+          body: String!
+        }
+      `
+    });
+
+    const priceSchema = makeExecutableSchema({
+      typeDefs: gql`
+        type Query {
+          books(ids: [ID!]!): [Book]!
+        }
+
+        type Book {
+          id: ID!
+          price: Int!
+        }
+      `
+    });
+
+    const { schema, report } = mergeRemoteSchemasWithReport({
+      subschemas: [
+        { name: "books", schema: bookSchema },
+        { name: "reviews", schema: reviewSchema },
+        { name: "prices", schema: priceSchema }
+      ],
+      onConflict: "first-wins"
+    });
+
+    const estimate = (query: string, options = {}) => {
+      const document = parse(query);
+      return estimateQueryCost(
+        schema,
+        document,
+        document.definitions[0] as OperationDefinitionNode,
+        { report, ...options }
+      );
+    };
+
+    it("should count a lookup per list item", () => {
+      expect(estimate("{ bestsellers { title rating } }")).toEqual({
+        calls: 11,
+        cost: 21
+      });
+    });
+
+    it("should count a batched lookup once", () => {
+      expect(
+        estimate(
+          "{ bestsellers { ...prices } } fragment prices on Book { price }"
+        )
+      ).toEqual({ calls: 2, cost: 11 });
+    });
+
+    it("should use configured costs and list sizes", () => {
+      expect(
+        estimate("{ bestsellers { rating reviews { body } } }", {
+          costs: { "Review.body": 2 },
+          listSizes: { "Query.bestsellers": 5 },
+          defaultListSize: 3
+        })
+      ).toEqual({ calls: 6, cost: 1 + 5 + 5 + 5 * 3 * 2 });
+    });
+
+    it("should reject queries over the limits", () => {
+      const rule = createQueryCostRule({ report, maxCalls: 10, maxCost: 20 });
+      const errors = validate(
+        schema,
+        parse("query Bestsellers { bestsellers { title rating } }"),
+        [...specifiedRules, rule]
+      );
+      expect(errors.map(({ message }) => message)).toEqual([
+        "Operation Bestsellers would send 11 requests to subschemas, which is more than the limit of 10",
+        "Operation Bestsellers has a cost of 21, which is more than the limit of 20"
+      ]);
+      expect(
+        validate(schema, parse("{ bestsellers { title } }"), [
+          ...specifiedRules,
+          rule
+        ])
+      ).toEqual([]);
+    });
+
+    describe("with routed and local root fields", () => {
+      const createShardSchema = () =>
+        makeExecutableSchema({
+          typeDefs: gql`
+            type Query {
+              order(id: ID!): Order
+              orders: [Order!]!
+            }
+
+            type Order {
+              id: ID!
+            }
+          `
+        });
+
+      const localSchema = makeExecutableSchema({
+        typeDefs: gql`
+          type Query {
+            version: String!
+          }
+        `
+      });
+
+      const shards = mergeRemoteSchemasWithReport({
+        localSchema,
+        subschemas: ["eu", "us", "asia"].map(name => ({
+          name,
+          schema: createShardSchema()
+        })),
+        routing: {
+          "Query.order": () => "eu",
+          "Query.orders": "all"
+        }
+      });
+
+      const estimateShards = (query: string) => {
+        const document = parse(query);
+        return estimateQueryCost(
+          shards.schema,
+          document,
+          document.definitions[0] as OperationDefinitionNode,
+          { report: shards.report }
+        );
+      };
+
+      it("should count a request per owner only for fields routed to all", () => {
+        expect(estimateShards('{ order(id: "eu-1") { id } }')).toEqual({
+          calls: 1,
+          cost: 2
+        });
+        expect(estimateShards("{ orders { id } }")).toEqual({
+          calls: 3,
+          cost: 11
+        });
+      });
+
+      it("should not count requests for local root fields", () => {
+        expect(estimateShards("{ version }")).toEqual({ calls: 0, cost: 1 });
+      });
+    });
+  });
 });
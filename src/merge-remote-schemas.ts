@@ -1,15 +1,17 @@
 import {
+  defaultFieldResolver,
   FieldNode,
   getNamedType,
+  getNullableType,
   GraphQLArgument,
+  GraphQLDirective,
+  GraphQLEnumType,
+  GraphQLEnumValueConfigMap,
   GraphQLField,
   GraphQLFieldConfigArgumentMap,
   GraphQLFieldConfigMap,
-  GraphQLFieldMap,
   GraphQLFieldResolver,
-  GraphQLFormattedError,
   GraphQLInputFieldConfigMap,
-  GraphQLInputFieldMap,
   GraphQLInputObjectType,
   GraphQLInputType,
   GraphQLInterfaceType,
@@ -18,23 +20,88 @@ import {
   GraphQLNonNull,
   GraphQLObjectType,
   GraphQLOutputType,
+  GraphQLResolveInfo,
   GraphQLScalarType,
   GraphQLSchema,
   GraphQLUnionType,
+  isEnumType,
   isInputObjectType,
   isInterfaceType,
   isListType,
   isNonNullType,
   isObjectType,
   isScalarType,
+  isSpecifiedDirective,
   isSpecifiedScalarType,
   isUnionType,
-  ValueNode,
-  Kind
+  Kind,
+  OperationTypeNode,
+  SelectionSetNode,
+  specifiedDirectives,
+  ValueNode
 } from "graphql";
-import { delegateToSchema } from "graphql-tools";
-import { ERROR_SYMBOL } from "graphql-tools/dist/stitching/errors";
-import { camelCase } from "lodash";
+import { delegateToSchema, Transform } from "graphql-tools";
+import { flatten, uniq, uniqBy, upperFirst } from "lodash";
+import {
+  addKeyFields,
+  createAddKeyFieldsTransform,
+  getKeyFieldValue,
+  KeyFieldsMap
+} from "./add-key-fields";
+import {
+  CompositionReport,
+  createCompositionReport,
+  reportField,
+  reportSkippedType,
+  reportType
+} from "./composition-report";
+import {
+  CacheStore,
+  createInMemoryCacheStore,
+  EntityCache
+} from "./entity-cache";
+import { handleFailure, withTimeout } from "./failure-policy";
+import { isFederationRootField, isFederationType } from "./federation";
+import {
+  createForwardErrorsTransform,
+  isForwardedErrors,
+  locateForwardedErrors,
+  resolveFromForwardedErrors
+} from "./forward-errors";
+import { Instrumentation, instrumentDelegation } from "./instrumentation";
+import {
+  FieldConflictResolver,
+  findDirectiveConflicts,
+  findMergeConflicts,
+  highestPriority,
+  MergeConflictError,
+  TypeConflictResolver
+} from "./merge-conflicts";
+import { mergeDirectiveUsages } from "./merge-directives";
+import {
+  addRequiredFields,
+  getMergeHint,
+  MergeHint,
+  MergeTypeConfigMap
+} from "./merge-hints";
+import { loadMergedFields } from "./merge-loader";
+import { createMergedTypeResolver } from "./resolve-type";
+import {
+  combineRoutedResults,
+  getRouteTargets,
+  RootFieldRouter,
+  RootFieldRoutingMap
+} from "./root-field-routing";
+import {
+  serializeArgs,
+  serializeVariableValues
+} from "./serialize-input-values";
+import {
+  createSubschemaRequest,
+  createSubschemas,
+  getSubschemaContext,
+  SubschemaConfig
+} from "./subschema-config";
 
 interface NewTypesMap {
   [key: string]: GraphQLNamedType;
@@ -42,27 +109,106 @@ interface NewTypesMap {
 
 function mergeObjectTypes({
   types,
-  newTypes
+  newTypes,
+  keyFields,
+  merge,
+  report,
+  instrumentation,
+  cache,
+  onTypeConflict,
+  onFieldConflict
 }: {
   types: ObjectTypeAndSchemaArray;
   newTypes: NewTypesMap;
+  keyFields: KeyFieldsMap;
+  merge: MergeTypeConfigMap;
+  report: CompositionReport;
+  instrumentation?: Instrumentation;
+  cache?: EntityCache;
+  onTypeConflict: TypeConflictResolver;
+  onFieldConflict: FieldConflictResolver;
 }) {
-  const mergeQuery = camelCase(types[0].type.name);
-
+  const hintedTypes = types.map(type => ({
+    ...type,
+    mergeHint: getMergeHint(type.type, type.schema, {
+      ...merge[type.type.name],
+      ...(type.subschema.merge || {})[type.type.name]
+    })
+  }));
+  checkRequiredFields(types, merge);
+  const orderedTypes = orderCandidates(hintedTypes, candidates =>
+    onTypeConflict(candidates, { typeName: types[0].type.name })
+  );
+  reportType(report, types[0].type.name, "Object", orderedTypes);
   return new GraphQLObjectType({
-    name: types.map(type => type.type.name).filter(name => name)[0],
-    description: types.map(type => type.type.description).filter(d => d)[0],
-    isTypeOf: types.map(type => type.type.isTypeOf).filter(a => a)[0],
-    astNode: types.map(type => type.type.astNode).filter(a => a)[0],
-    extensionASTNodes: types
+    name: orderedTypes.map(type => type.type.name).filter(name => name)[0],
+    description: orderedTypes
+      .map(type => type.type.description)
+      .filter(d => d)[0],
+    isTypeOf: orderedTypes.map(type => type.type.isTypeOf).filter(a => a)[0],
+    astNode: mergeDirectiveUsages(orderedTypes.map(type => type.type.astNode)),
+    extensionASTNodes: orderedTypes
       .map(type => type.type.extensionASTNodes)
       .filter(a => a)[0],
-    fields: () => createFieldMapConfig({ types, newTypes, mergeQuery }),
+    fields: () =>
+      createFieldMapConfig({
+        types: hintedTypes,
+        newTypes,
+        keyFields,
+        report,
+        instrumentation,
+        cache,
+        onFieldConflict
+      }),
     interfaces: () =>
       mergeInterfaces({ types: types.map(type => type.type), newTypes })
   });
 }
 
+// Required fields are configured for the merged type, so each of them only
+// has to be declared by one of the subschemas.
+function checkRequiredFields(
+  types: ObjectTypeAndSchemaArray,
+  merge: MergeTypeConfigMap
+) {
+  const typeName = types[0].type.name;
+  const configs = [
+    merge[typeName],
+    ...types.map(({ subschema }) => (subschema.merge || {})[typeName])
+  ];
+  for (const config of configs) {
+    for (const fieldName of Object.keys((config && config.requires) || {})) {
+      if (!types.some(({ type }) => Boolean(type.getFields()[fieldName]))) {
+        throw new Error(
+          `Field ${typeName}.${fieldName} requires other fields but doesn't exist`
+        );
+      }
+    }
+  }
+}
+
+function orderCandidates<T extends { schema: GraphQLSchema }>(
+  candidates: T[],
+  resolveConflict: (candidates: T[]) => { schema: GraphQLSchema }
+): T[] {
+  if (candidates.length < 2) {
+    return candidates;
+  }
+  const winner = resolveConflict(candidates);
+  const original =
+    candidates.find(candidate => candidate === winner) ||
+    candidates.find(candidate => candidate.schema === winner.schema);
+  if (!original) {
+    throw new Error(
+      "Conflict resolvers must return a candidate from one of the conflicting schemas"
+    );
+  }
+  return [
+    Object.assign({}, original, winner),
+    ...candidates.filter(candidate => candidate !== original)
+  ];
+}
+
 function mergeInterfaces({
   types,
   newTypes
@@ -84,73 +230,182 @@ function mergeInterfaces({
 }
 
 type NamedTypeAndSchemaArray = Array<{
+  subschema: SubschemaConfig;
   schema: GraphQLSchema;
   type: GraphQLNamedType;
   replaceResolvers: boolean;
 }>;
 type ObjectTypeAndSchemaArray = Array<{
+  subschema: SubschemaConfig;
+  schema: GraphQLSchema;
+  type: GraphQLObjectType;
+  replaceResolvers: boolean;
+}>;
+type CompositeTypeAndSchemaArray = Array<{
+  subschema: SubschemaConfig;
+  schema: GraphQLSchema;
+  type: GraphQLObjectType | GraphQLInterfaceType | GraphQLInputObjectType;
+}>;
+type DirectiveAndSchemaArray = Array<{
+  subschema: SubschemaConfig;
+  schema: GraphQLSchema;
+  directive: GraphQLDirective;
+}>;
+type MergedObjectTypeArray = Array<{
+  subschema: SubschemaConfig;
   schema: GraphQLSchema;
   type: GraphQLObjectType;
   replaceResolvers: boolean;
+  mergeHint: MergeHint;
 }>;
 
 function mergeRootTypes({
   types,
-  newTypes
+  newTypes,
+  keyFields,
+  operation,
+  routing,
+  report,
+  instrumentation,
+  onTypeConflict,
+  onFieldConflict
 }: {
   types: ObjectTypeAndSchemaArray;
   newTypes: NewTypesMap;
+  keyFields: KeyFieldsMap;
+  operation: OperationTypeNode;
+  routing: RootFieldRoutingMap;
+  report: CompositionReport;
+  instrumentation?: Instrumentation;
+  onTypeConflict: TypeConflictResolver;
+  onFieldConflict: FieldConflictResolver;
 }) {
   if (types.length === 0) {
     return undefined;
   } else {
+    const orderedTypes = orderCandidates(types, candidates =>
+      onTypeConflict(candidates, { typeName: types[0].type.name })
+    );
+    reportType(report, types[0].type.name, "Object", orderedTypes);
     return new GraphQLObjectType({
-      name: types.map(type => type.type.name).filter(name => name)[0],
-      description: types.map(type => type.type.description).filter(d => d)[0],
-      astNode: types.map(type => type.type.astNode).filter(a => a)[0],
-      fields: () => createRootFieldMapConfig({ types, newTypes })
+      name: orderedTypes.map(type => type.type.name).filter(name => name)[0],
+      description: orderedTypes
+        .map(type => type.type.description)
+        .filter(d => d)[0],
+      astNode: mergeDirectiveUsages(
+        orderedTypes.map(type => type.type.astNode)
+      ),
+      fields: () =>
+        createRootFieldMapConfig({
+          types,
+          newTypes,
+          keyFields,
+          operation,
+          routing,
+          report,
+          instrumentation,
+          onFieldConflict
+        })
     });
   }
 }
 
 function createRootFieldMapConfig({
   types,
-  newTypes
+  newTypes,
+  keyFields,
+  operation,
+  routing,
+  report,
+  instrumentation,
+  onFieldConflict
 }: {
   types: ObjectTypeAndSchemaArray;
   newTypes: NewTypesMap;
+  keyFields: KeyFieldsMap;
+  operation: OperationTypeNode;
+  routing: RootFieldRoutingMap;
+  report: CompositionReport;
+  instrumentation?: Instrumentation;
+  onFieldConflict: FieldConflictResolver;
 }) {
   const fields: {
     [key: string]: Array<{
+      subschema: SubschemaConfig;
       schema: GraphQLSchema;
       field: GraphQLField<any, any>;
     }>;
   } = {};
-  for (const { type, schema } of types) {
+  for (const { type, schema, subschema } of types) {
     for (const [key, field] of Object.entries(type.getFields())) {
+      if (isFederationRootField(schema, key)) {
+        continue;
+      }
       if (!fields[key]) {
         fields[key] = [];
       }
-      fields[key].push({ schema, field });
+      fields[key].push({ subschema, schema, field });
     }
   }
   const fieldsConfig: GraphQLFieldConfigMap<any, any> = {};
   for (const [key, fieldAndSchema] of Object.entries(fields)) {
-    const fieldCandidates = fieldAndSchema.map(f => f.field);
-    const schemas = fieldAndSchema.map(f => f.schema);
+    const orderedFields = orderCandidates(fieldAndSchema, candidates =>
+      onFieldConflict(candidates, {
+        typeName: types[0].type.name,
+        fieldName: key
+      })
+    );
+    const fieldCandidates = orderedFields.map(f => f.field);
+    const route = routing[`${upperFirst(operation)}.${key}`];
+    const subschemas =
+      route === undefined
+        ? [orderedFields[0].subschema]
+        : orderedFields.map(f => f.subschema);
+    const router: RootFieldRouter | undefined =
+      route === "all" ? () => subschemas.map(({ name }) => name) : route;
+    reportField(
+      report,
+      types[0].type.name,
+      key,
+      orderedFields,
+      subschemas.map(({ name }) => name),
+      undefined,
+      route === undefined ? undefined : route === "all" ? "all" : "router"
+    );
     const fieldType: GraphQLOutputType = getCandidateAttribute(
       fieldCandidates,
       "type"
     );
     fieldsConfig[key] = {
-      type: newTypes[getNamedType(fieldType).name]
-        ? createFieldType(fieldType, newTypes)
-        : fieldType,
+      type: applyFailurePolicy(
+        newTypes[getNamedType(fieldType).name]
+          ? createFieldType(fieldType, newTypes)
+          : fieldType,
+        subschemas
+      ),
       args: createArgumentConfig(
         getCandidateAttribute(Object.values(fieldCandidates), "args"),
-        newTypes
+        newTypes,
+        fieldCandidates
       ),
-      resolve: createRootResolver({ schema: schemas[0] }),
+      ...(operation === "subscription"
+        ? {
+            subscribe: createRootResolver({
+              subschemas,
+              keyFields,
+              router,
+              instrumentation
+            }),
+            resolve: createSubscriptionPayloadResolver()
+          }
+        : {
+            resolve: createRootResolver({
+              subschemas,
+              keyFields,
+              router,
+              instrumentation
+            })
+          }),
       deprecationReason: getCandidateAttribute(
         Object.values(fieldCandidates),
         "deprecationReason"
@@ -159,7 +414,7 @@ function createRootFieldMapConfig({
         Object.values(fieldCandidates),
         "description"
       ),
-      astNode: getCandidateAttribute(Object.values(fieldCandidates), "astNode")
+      astNode: mergeDirectiveUsages(fieldCandidates.map(f => f.astNode))
     };
   }
   return fieldsConfig;
@@ -175,146 +430,342 @@ function getCandidateAttribute(candidates: any[], attribute: string) {
 function createFieldMapConfig({
   types,
   newTypes,
-  mergeQuery
+  keyFields,
+  report,
+  instrumentation,
+  cache,
+  onFieldConflict
 }: {
-  types: ObjectTypeAndSchemaArray;
+  types: MergedObjectTypeArray;
   newTypes: NewTypesMap;
-  mergeQuery: string;
+  keyFields: KeyFieldsMap;
+  report: CompositionReport;
+  instrumentation?: Instrumentation;
+  cache?: EntityCache;
+  onFieldConflict: FieldConflictResolver;
 }): GraphQLFieldConfigMap<any, any> {
   const fields: {
-    [key: string]: {
+    [key: string]: Array<{
+      subschema: SubschemaConfig;
       schema: GraphQLSchema;
       field: GraphQLField<any, any>;
+      mergeHint: MergeHint;
       replaceResolvers: boolean;
-    };
+    }>;
   } = {};
-  for (const { type, schema, replaceResolvers } of types) {
+  for (const {
+    type,
+    subschema,
+    schema,
+    mergeHint,
+    replaceResolvers
+  } of types) {
     for (const [key, field] of Object.entries(type.getFields())) {
       if (!fields[key]) {
-        fields[key] = { schema, field, replaceResolvers };
+        fields[key] = [];
       }
+      fields[key].push({
+        subschema,
+        schema,
+        field,
+        mergeHint,
+        replaceResolvers
+      });
     }
   }
   const fieldsConfig: GraphQLFieldConfigMap<any, any> = {};
-  for (const [key, { field, schema, replaceResolvers }] of Object.entries(
-    fields
-  )) {
+  for (const [key, candidates] of Object.entries(fields)) {
+    const orderedFields = orderCandidates(candidates, conflictingFields =>
+      onFieldConflict(conflictingFields, {
+        typeName: types[0].type.name,
+        fieldName: key
+      })
+    );
+    const [{ field, subschema, mergeHint, replaceResolvers }] = orderedFields;
+    const fieldCandidates = orderedFields.map(f => f.field);
+    const requires = mergeHint.requires[key];
+    reportField(
+      report,
+      types[0].type.name,
+      key,
+      orderedFields,
+      [subschema.name],
+      replaceResolvers ? mergeHint : undefined
+    );
+    if (replaceResolvers) {
+      addKeyFields(keyFields, types[0].type.name, mergeHint.key);
+      if (requires) {
+        addKeyFields(keyFields, types[0].type.name, requires);
+      }
+    }
+    const fieldType = newTypes[getNamedType(field.type).name]
+      ? createFieldType(field.type, newTypes)
+      : field.type;
     fieldsConfig[key] = {
-      type: newTypes[getNamedType(field.type).name]
-        ? createFieldType(field.type, newTypes)
-        : field.type,
-      args: createArgumentConfig(field.args, newTypes),
+      type: replaceResolvers
+        ? applyFailurePolicy(fieldType, [subschema])
+        : fieldType,
+      args: createArgumentConfig(field.args, newTypes, fieldCandidates),
       resolve: replaceResolvers
-        ? createFieldResolver(schema, mergeQuery)
+        ? createFieldResolver({
+            subschema,
+            keyFields,
+            mergeHint: requires
+              ? addRequiredFields(mergeHint, requires)
+              : mergeHint,
+            requires,
+            instrumentation,
+            cache
+          })
         : field.resolve,
       deprecationReason: field.deprecationReason,
       description: field.description,
-      astNode: field.astNode
+      astNode: mergeDirectiveUsages(fieldCandidates.map(f => f.astNode))
     };
   }
   return fieldsConfig;
 }
 
+// Fields resolved by a subschema that fails with null are nullable, so that a
+// failure doesn't null out their parents as well.
+function applyFailurePolicy(
+  type: GraphQLOutputType,
+  subschemas: SubschemaConfig[]
+): GraphQLOutputType {
+  return subschemas.some(({ onFailure }) => onFailure === "null")
+    ? getNullableType(type)
+    : type;
+}
+
 function createRootResolver({
-  schema
+  subschemas,
+  keyFields,
+  router,
+  instrumentation
 }: {
-  schema: GraphQLSchema;
+  subschemas: SubschemaConfig[];
+  keyFields: KeyFieldsMap;
+  router?: RootFieldRouter;
+  instrumentation?: Instrumentation;
 }): GraphQLFieldResolver<any, any> {
+  const transforms = new Map(
+    subschemas.map(
+      subschema =>
+        [
+          subschema,
+          [createAddKeyFieldsTransform(subschema.schema, keyFields)]
+        ] as [SubschemaConfig, Transform[]]
+    )
+  );
   return (parent, args, context, info) => {
-    return delegateToSchema({
-      schema,
-      operation: info.operation.operation,
-      fieldName: info.fieldName,
-      args,
-      context,
-      info
+    const isSubscription = info.operation.operation === "subscription";
+    // Failed results are thrown right away, while errors in lists are located
+    // once the results are combined.
+    const resolveFrom = (subschema: SubschemaConfig) => {
+      const delegatedArgs = serializeArgs(
+        args,
+        info.parentType.getFields()[info.fieldName].args,
+        subschema.schema
+      );
+      const result = getSubschemaContext(subschema, context, info)
+        .then(subschemaContext =>
+          instrumentDelegation(
+            instrumentation,
+            {
+              subschema: subschema.name,
+              operation: info.operation.operation,
+              fieldName: info.fieldName,
+              kind: "root",
+              args: delegatedArgs,
+              context: subschemaContext,
+              info
+            },
+            () => {
+              const request = createSubschemaRequest(
+                subschema,
+                delegatedArgs,
+                subschemaContext,
+                info
+              );
+              return withTimeout(
+                delegateToSchema({
+                  schema: subschema.schema,
+                  operation: info.operation.operation,
+                  fieldName: info.fieldName,
+                  args: request.args,
+                  context: subschemaContext,
+                  info: {
+                    ...info,
+                    variableValues: serializeVariableValues(
+                      info,
+                      subschema.schema
+                    )
+                  },
+                  transforms: [
+                    ...transforms.get(subschema)!,
+                    ...request.transforms,
+                    createForwardErrorsTransform(subschema.name, info.fieldName)
+                  ]
+                }),
+                subschema.name,
+                subschema.timeout
+              );
+            }
+          )
+        )
+        .then(value =>
+          isForwardedErrors(value) ? locateForwardedErrors(value, info) : value
+        );
+      // Subscriptions have to return an iterator, so there's nothing to fall
+      // back to.
+      return isSubscription
+        ? result
+        : result.catch(error =>
+            handleFailure(
+              subschema.onFailure,
+              error,
+              parent,
+              args,
+              context,
+              info
+            )
+          );
+    };
+
+    if (!router) {
+      return resolveFrom(subschemas[0]).then(value =>
+        locateForwardedErrors(value, info)
+      );
+    }
+    return Promise.resolve(router(args, context, info)).then(route => {
+      const targets = getRouteTargets(route, subschemas, info);
+      if (targets.length === 1) {
+        return resolveFrom(targets[0]).then(value =>
+          locateForwardedErrors(value, info)
+        );
+      } else if (isSubscription) {
+        throw new Error(
+          `Subscription ${info.fieldName} can't be sent to more than one subschema`
+        );
+      }
+      return Promise.all(targets.map(resolveFrom)).then(values =>
+        locateForwardedErrors(
+          combineRoutedResults(values, info.returnType),
+          info
+        )
+      );
     });
   };
 }
 
-function createFieldResolver(
-  schema: GraphQLSchema,
-  mergeQuery?: string
-): GraphQLFieldResolver<any, any> {
+function createSubscriptionPayloadResolver(): GraphQLFieldResolver<any, any> {
+  return (payload, args, context, info) =>
+    resolveFromParent(payload, info.fieldName, info);
+}
+
+function createFieldResolver({
+  subschema,
+  keyFields,
+  mergeHint,
+  requires,
+  instrumentation,
+  cache
+}: {
+  subschema: SubschemaConfig;
+  keyFields: KeyFieldsMap;
+  mergeHint: MergeHint;
+  requires?: SelectionSetNode;
+  instrumentation?: Instrumentation;
+  cache?: EntityCache;
+}): GraphQLFieldResolver<any, any> {
+  const transforms = [createAddKeyFieldsTransform(subschema.schema, keyFields)];
   return (parent, args, context, info) => {
     const responseKey = info.fieldNodes[0].alias
       ? info.fieldNodes[0].alias.value
       : info.fieldName;
 
-    const result = parent && parent[responseKey];
-    if (result !== undefined) {
-      const subErrors =
-        parent[ERROR_SYMBOL] &&
-        parent[ERROR_SYMBOL].filter(
-          (error: GraphQLFormattedError) =>
-            error.path && error.path[0] === responseKey
-        ).map(({ message, locations, path }: GraphQLFormattedError) => ({
-          message,
-          locations,
-          path: path && path.slice(1)
-        }));
-
-      const fieldError = (subErrors || []).filter(
-        (error: GraphQLFormattedError) => error.path && error.path.length === 0
-      );
-      if (fieldError.length > 0) {
-        throw fieldError[0].message;
-      }
-      if (subErrors && subErrors.length > 0) {
-        if (Array.isArray(result)) {
-          for (const { message, locations, path } of subErrors) {
-            if (!result[path[0]][ERROR_SYMBOL]) {
-              result[path[0]][ERROR_SYMBOL] = [];
-            }
-            result[path[0]][ERROR_SYMBOL].push({
-              message,
-              locations,
-              path: path.slice(1)
-            });
-          }
-        } else {
-          result[ERROR_SYMBOL] = subErrors;
-        }
-      }
-      return result;
+    if (parent && parent[responseKey] !== undefined) {
+      return resolveFromParent(parent, responseKey, info);
     } else {
-      if (mergeQuery) {
-        info = {
-          ...info,
-          fieldNodes: [
-            {
-              kind: "Field",
-              name: {
-                kind: "Name",
-                value: mergeQuery
-              },
-              selectionSet: {
-                kind: "SelectionSet",
-                selections: info.fieldNodes
-              }
-            } as FieldNode
-          ]
-        };
-      }
-      const request = delegateToSchema({
-        schema,
-        operation: "query",
-        fieldName: mergeQuery || info.fieldName,
-        args: mergeQuery ? { id: parent.id } : args,
-        context,
-        info
-      });
-      if (mergeQuery) {
-        return request.then(requestResult =>
-          requestResult ? requestResult[responseKey] : null
+      return resolveRequiredFields(parent, requires, context, info)
+        .then(completeParent =>
+          loadMergedFields({
+            subschema,
+            mergeHint,
+            parent: completeParent,
+            context,
+            info: {
+              ...info,
+              variableValues: serializeVariableValues(info, subschema.schema)
+            },
+            transforms,
+            instrumentation,
+            cache
+          })
+        )
+        .then(result => {
+          if (isForwardedErrors(result)) {
+            return resolveFromForwardedErrors(result, responseKey, info);
+          }
+          return result ? resolveFromParent(result, responseKey, info) : null;
+        })
+        .catch(error =>
+          handleFailure(subschema.onFailure, error, parent, args, context, info)
         );
-      } else {
-        return request;
-      }
     }
   };
 }
 
+// Required fields that the parent wasn't fetched with are resolved from the
+// services that own them first.
+function resolveRequiredFields(
+  parent: any,
+  requires: SelectionSetNode | undefined,
+  context: any,
+  info: GraphQLResolveInfo
+): Promise<any> {
+  const fields = info.parentType.getFields();
+  const missingFields = (requires ? requires.selections : []).filter(
+    selection =>
+      selection.kind === Kind.FIELD &&
+      fields[selection.name.value] &&
+      getKeyFieldValue(parent, selection.name.value) === undefined
+  ) as FieldNode[];
+  if (missingFields.length === 0) {
+    return Promise.resolve(parent);
+  }
+  return Promise.all(
+    missingFields.map(fieldNode => {
+      const field = fields[fieldNode.name.value];
+      return (field.resolve || defaultFieldResolver)(parent, {}, context, {
+        ...info,
+        fieldName: field.name,
+        fieldNodes: [fieldNode],
+        returnType: field.type,
+        path: { prev: info.path.prev, key: field.name }
+      });
+    })
+  ).then(values => {
+    const completeParent = { ...parent };
+    missingFields.forEach((fieldNode, index) => {
+      completeParent[fieldNode.name.value] = values[index];
+    });
+    return completeParent;
+  });
+}
+
+function resolveFromParent(
+  parent: any,
+  responseKey: string,
+  info: GraphQLResolveInfo
+) {
+  const result = parent[responseKey];
+  if (result === undefined) {
+    return null;
+  }
+  return locateForwardedErrors(result, info);
+}
+
 function createFieldType(
   type: GraphQLOutputType,
   newTypes: NewTypesMap
@@ -341,15 +792,57 @@ function createInputFieldType(
   }
 }
 
-function recreateUnionType(type: GraphQLUnionType, newTypes: NewTypesMap) {
+function mergeUnionTypes(
+  types: NamedTypeAndSchemaArray,
+  newTypes: NewTypesMap
+) {
+  const unionTypes = types.map(({ type }) => type as GraphQLUnionType);
   return new GraphQLUnionType({
-    name: type.name,
-    description: type.description,
-    astNode: type.astNode,
-    extensionASTNodes: type.extensionASTNodes,
+    name: unionTypes[0].name,
+    description: getCandidateAttribute(unionTypes, "description"),
+    astNode: mergeDirectiveUsages(unionTypes.map(type => type.astNode)),
+    extensionASTNodes: getCandidateAttribute(unionTypes, "extensionASTNodes"),
     types: () =>
-      type.getTypes().map(t => (newTypes[t.name] || t) as GraphQLObjectType),
-    resolveType: type.resolveType
+      uniqBy(flatten(unionTypes.map(type => type.getTypes())), "name").map(
+        t => (newTypes[t.name] || t) as GraphQLObjectType
+      ),
+    resolveType: createMergedTypeResolver(
+      getLocalType(types) as GraphQLUnionType | undefined
+    )
+  });
+}
+
+function getLocalType(types: NamedTypeAndSchemaArray) {
+  const localType = types.find(({ replaceResolvers }) => !replaceResolvers);
+  return localType && localType.type;
+}
+
+function mergeEnumTypes(types: NamedTypeAndSchemaArray) {
+  const enumTypes = types.map(({ type }) => type as GraphQLEnumType);
+  const values: GraphQLEnumValueConfigMap = {};
+  for (const type of enumTypes) {
+    for (const value of type.getValues()) {
+      if (!values[value.name]) {
+        values[value.name] = {
+          value: value.value,
+          deprecationReason: value.deprecationReason,
+          description: value.description,
+          astNode: mergeDirectiveUsages(
+            enumTypes.map(candidate => {
+              const candidateValue = candidate.getValue(value.name);
+              return candidateValue && candidateValue.astNode;
+            })
+          )
+        };
+      }
+    }
+  }
+  return new GraphQLEnumType({
+    name: enumTypes[0].name,
+    description: getCandidateAttribute(enumTypes, "description"),
+    astNode: mergeDirectiveUsages(enumTypes.map(type => type.astNode)),
+    extensionASTNodes: getCandidateAttribute(enumTypes, "extensionASTNodes"),
+    values
   });
 }
 
@@ -364,19 +857,25 @@ function recreateScalarType(type: GraphQLScalarType) {
     parseValue(value: any) {
       return value;
     },
-    parseLiteral(ast: ValueNode) {
-      return parseLiteral(ast);
+    parseLiteral(ast: ValueNode, variables?: { [key: string]: any } | null) {
+      return parseLiteral(ast, variables || {});
     }
   });
 }
 
-function parseLiteral(ast: ValueNode): any {
+function parseLiteral(ast: ValueNode, variables: { [key: string]: any }): any {
   switch (ast.kind) {
     case Kind.STRING:
-    case Kind.BOOLEAN: {
+    case Kind.BOOLEAN:
+    case Kind.ENUM: {
       return ast.value;
     }
-    case Kind.INT:
+    case Kind.INT: {
+      // Integers that don't fit into a number are passed on as strings rather
+      // than losing precision.
+      const value = parseInt(ast.value, 10);
+      return Number.isSafeInteger(value) ? value : ast.value;
+    }
     case Kind.FLOAT: {
       return parseFloat(ast.value);
     }
@@ -384,83 +883,183 @@ function parseLiteral(ast: ValueNode): any {
       const value: { [key: string]: any } = {};
 
       for (const field of ast.fields) {
-        value[field.name.value] = parseLiteral(field.value);
+        value[field.name.value] = parseLiteral(field.value, variables);
       }
 
       return value;
     }
     case Kind.LIST: {
-      return ast.values.map(parseLiteral);
+      return ast.values.map(value => parseLiteral(value, variables));
+    }
+    case Kind.VARIABLE: {
+      return variables[ast.name.value];
     }
     default:
       return null;
   }
 }
 
-function recreateInputType(
-  type: GraphQLInputObjectType,
+function mergeInputTypes(
+  types: NamedTypeAndSchemaArray,
   newTypes: NewTypesMap
 ) {
+  const inputTypes = types.map(({ type }) => type as GraphQLInputObjectType);
   return new GraphQLInputObjectType({
-    name: type.name,
-    description: type.description,
-    astNode: type.astNode,
+    name: inputTypes[0].name,
+    description: getCandidateAttribute(inputTypes, "description"),
+    astNode: mergeDirectiveUsages(inputTypes.map(type => type.astNode)),
+    extensionASTNodes: getCandidateAttribute(inputTypes, "extensionASTNodes"),
+    fields: () => {
+      const fieldsConfig: GraphQLInputFieldConfigMap = {};
+      for (const type of inputTypes) {
+        for (const [key, field] of Object.entries(type.getFields())) {
+          if (!fieldsConfig[key]) {
+            fieldsConfig[key] = {
+              type: newTypes[getNamedType(field.type).name]
+                ? createInputFieldType(field.type, newTypes)
+                : field.type,
+              defaultValue: field.defaultValue,
+              description: field.description,
+              astNode: mergeDirectiveUsages(
+                inputTypes.map(candidate => {
+                  const candidateField = candidate.getFields()[key];
+                  return candidateField && candidateField.astNode;
+                })
+              )
+            };
+          }
+        }
+      }
+      return fieldsConfig;
+    }
+  });
+}
 
-    fields: () => inputFieldMapToFieldConfigMap(type.getFields(), newTypes)
+function mergeInterfaceTypes({
+  types,
+  newTypes,
+  report,
+  onFieldConflict
+}: {
+  types: NamedTypeAndSchemaArray;
+  newTypes: NewTypesMap;
+  report: CompositionReport;
+  onFieldConflict: FieldConflictResolver;
+}) {
+  const interfaceTypes = types.map(({ type }) => type as GraphQLInterfaceType);
+  return new GraphQLInterfaceType({
+    name: interfaceTypes[0].name,
+    description: getCandidateAttribute(interfaceTypes, "description"),
+    astNode: mergeDirectiveUsages(interfaceTypes.map(type => type.astNode)),
+    extensionASTNodes: getCandidateAttribute(
+      interfaceTypes,
+      "extensionASTNodes"
+    ),
+    fields: () =>
+      createInterfaceFieldMapConfig({
+        types,
+        newTypes,
+        report,
+        onFieldConflict
+      }),
+    resolveType: createMergedTypeResolver(
+      getLocalType(types) as GraphQLInterfaceType | undefined
+    )
   });
 }
 
-function inputFieldMapToFieldConfigMap(
-  fields: GraphQLInputFieldMap,
-  newTypes: NewTypesMap
-): GraphQLInputFieldConfigMap {
-  const fieldsConfig: GraphQLInputFieldConfigMap = {};
-  for (const [key, field] of Object.entries(fields)) {
+function createInterfaceFieldMapConfig({
+  types,
+  newTypes,
+  report,
+  onFieldConflict
+}: {
+  types: NamedTypeAndSchemaArray;
+  newTypes: NewTypesMap;
+  report: CompositionReport;
+  onFieldConflict: FieldConflictResolver;
+}) {
+  const fields: {
+    [key: string]: Array<{
+      subschema: SubschemaConfig;
+      schema: GraphQLSchema;
+      field: GraphQLField<any, any>;
+    }>;
+  } = {};
+  for (const { type, schema, subschema } of types) {
+    for (const [key, field] of Object.entries(
+      (type as GraphQLInterfaceType).getFields()
+    )) {
+      if (!fields[key]) {
+        fields[key] = [];
+      }
+      fields[key].push({ subschema, schema, field });
+    }
+  }
+  // An interface field is only kept when every merged implementation of the
+  // interface provides it, otherwise the merged schema would be invalid.
+  const implementations = Object.values(newTypes).filter(
+    newType =>
+      isObjectType(newType) &&
+      newType.getInterfaces().some(({ name }) => name === types[0].type.name)
+  ) as GraphQLObjectType[];
+  const fieldsConfig: GraphQLFieldConfigMap<any, any> = {};
+  for (const [key, candidates] of Object.entries(fields)) {
+    if (implementations.some(type => !type.getFields()[key])) {
+      continue;
+    }
+    const orderedFields = orderCandidates(candidates, conflictingFields =>
+      onFieldConflict(conflictingFields, {
+        typeName: types[0].type.name,
+        fieldName: key
+      })
+    );
+    const [{ field, subschema }] = orderedFields;
+    const fieldCandidates = orderedFields.map(f => f.field);
+    reportField(report, types[0].type.name, key, orderedFields, [
+      subschema.name
+    ]);
+    const fieldType = newTypes[getNamedType(field.type).name]
+      ? createFieldType(field.type, newTypes)
+      : field.type;
     fieldsConfig[key] = {
-      type: newTypes[getNamedType(field.type).name]
-        ? createInputFieldType(field.type, newTypes)
-        : field.type,
-      defaultValue: field.defaultValue,
+      // Implementations may have made the field nullable because of their
+      // failure policy.
+      type: implementations.some(
+        type => !isNonNullType(type.getFields()[key].type)
+      )
+        ? getNullableType(fieldType)
+        : fieldType,
+      args: createArgumentConfig(field.args, newTypes, fieldCandidates),
+      deprecationReason: field.deprecationReason,
       description: field.description,
-      astNode: field.astNode
+      astNode: mergeDirectiveUsages(fieldCandidates.map(f => f.astNode))
     };
   }
   return fieldsConfig;
 }
 
-function recreateInterfaceType(
-  type: GraphQLInterfaceType,
+function mergeDirectives(
+  candidates: DirectiveAndSchemaArray,
   newTypes: NewTypesMap
 ) {
-  return new GraphQLInterfaceType({
-    name: type.name,
-    description: type.description,
-    astNode: type.astNode,
-    extensionASTNodes: type.extensionASTNodes,
-    fields: () => recreateInterfaceFieldMap(type.getFields(), newTypes)
+  const directives = orderCandidates(candidates, highestPriority).map(
+    ({ directive }) => directive
+  );
+  return new GraphQLDirective({
+    name: directives[0].name,
+    description: getCandidateAttribute(directives, "description"),
+    locations: uniq(flatten(directives.map(({ locations }) => locations))),
+    args: createArgumentConfig(directives[0].args, newTypes, directives),
+    astNode: directives[0].astNode
   });
 }
 
-function recreateInterfaceFieldMap(
-  fields: GraphQLFieldMap<any, any>,
-  newTypes: NewTypesMap
+function createArgumentConfig(
+  args: GraphQLArgument[],
+  newTypes: NewTypesMap,
+  candidates: Array<{ args: GraphQLArgument[] }> = []
 ) {
-  const fieldsConfig: GraphQLFieldConfigMap<any, any> = {};
-  for (const [key, field] of Object.entries(fields)) {
-    fieldsConfig[key] = {
-      type: newTypes[getNamedType(field.type).name]
-        ? createFieldType(field.type, newTypes)
-        : field.type,
-      args: createArgumentConfig(field.args, newTypes),
-      deprecationReason: field.deprecationReason,
-      description: field.description,
-      astNode: field.astNode
-    };
-  }
-  return fieldsConfig;
-}
-
-function createArgumentConfig(args: GraphQLArgument[], newTypes: NewTypesMap) {
   const argsConfig: GraphQLFieldConfigArgumentMap = {};
   for (const arg of args) {
     argsConfig[arg.name] = {
@@ -469,12 +1068,34 @@ function createArgumentConfig(args: GraphQLArgument[], newTypes: NewTypesMap) {
         : arg.type,
       defaultValue: arg.defaultValue,
       description: arg.description,
-      astNode: arg.astNode
+      astNode: mergeDirectiveUsages([
+        arg.astNode,
+        ...candidates.map(candidate => {
+          const candidateArg = candidate.args.find(a => a.name === arg.name);
+          return candidateArg && candidateArg.astNode;
+        })
+      ])
     };
   }
   return argsConfig;
 }
 
+function getTypeKind(type: GraphQLNamedType) {
+  if (isObjectType(type)) {
+    return "Object";
+  } else if (isInterfaceType(type)) {
+    return "Interface";
+  } else if (isUnionType(type)) {
+    return "Union";
+  } else if (isEnumType(type)) {
+    return "Enum";
+  } else if (isInputObjectType(type)) {
+    return "Input";
+  } else {
+    return "Scalar";
+  }
+}
+
 function isTypeToInclude(type: GraphQLNamedType) {
   return (
     type.name !== "Query" &&
@@ -486,95 +1107,269 @@ function isTypeToInclude(type: GraphQLNamedType) {
   );
 }
 
-export function mergeRemoteSchemas({
-  schemas,
-  localSchema
-}: {
-  schemas: GraphQLSchema[];
+export interface MergeRemoteSchemasOptions {
+  schemas?: GraphQLSchema[];
+  subschemas?: SubschemaConfig[];
   localSchema?: GraphQLSchema;
-}) {
+  merge?: MergeTypeConfigMap;
+  scalars?: { [typeName: string]: GraphQLScalarType };
+  routing?: RootFieldRoutingMap;
+  instrumentation?: Instrumentation;
+  // Caches looked up fields that have a maxAge, in memory when it's `true`.
+  cache?: boolean | CacheStore;
+  // Adds a scope, such as the user or tenant, to the cache keys of a request.
+  cacheScope?: (context: any) => any;
+  onConflict?: "throw" | "first-wins";
+  onTypeConflict?: TypeConflictResolver;
+  onFieldConflict?: FieldConflictResolver;
+}
+
+export function mergeRemoteSchemas(options: MergeRemoteSchemasOptions) {
+  return mergeRemoteSchemasWithReport(options).schema;
+}
+
+// Merges the schemas like mergeRemoteSchemas, and also reports which subschema
+// each type and field of the merged schema comes from.
+export function mergeRemoteSchemasWithReport({
+  schemas = [],
+  subschemas = [],
+  localSchema,
+  merge = {},
+  scalars = {},
+  routing = {},
+  instrumentation,
+  cache = false,
+  cacheScope,
+  onConflict = "throw",
+  onTypeConflict = highestPriority,
+  onFieldConflict
+}: MergeRemoteSchemasOptions): {
+  schema: GraphQLSchema;
+  report: CompositionReport;
+} {
   const newTypes: NewTypesMap = {};
+  const keyFields: KeyFieldsMap = {};
+  const report = createCompositionReport();
+  const cacheStore =
+    cache === true ? createInMemoryCacheStore() : cache || undefined;
+  const entityCache = cacheStore && { store: cacheStore, scope: cacheScope };
 
-  const allSchemas = localSchema ? [localSchema, ...schemas] : schemas;
+  const remoteSubschemas = createSubschemas({ schemas, subschemas });
+  const allSubschemas = localSchema
+    ? [{ name: "localSchema", schema: localSchema }, ...remoteSubschemas]
+    : remoteSubschemas;
 
-  const queryTypes = allSchemas.map(schema => ({
-    schema,
-    type: schema.getQueryType()
-  }));
+  const queryTypes = allSubschemas
+    .map(subschema => ({
+      subschema,
+      schema: subschema.schema,
+      type: subschema.schema.getQueryType()
+    }))
+    .filter(argument => argument.type) as ObjectTypeAndSchemaArray;
   const query = mergeRootTypes({
-    types: queryTypes.filter(
-      argument => argument.type
-    ) as ObjectTypeAndSchemaArray,
-    newTypes
+    types: queryTypes,
+    newTypes,
+    keyFields,
+    onTypeConflict,
+    onFieldConflict: onFieldConflict || highestPriority,
+    operation: "query",
+    routing,
+    report,
+    instrumentation
   });
 
-  const mutationTypes = allSchemas.map(schema => ({
-    schema,
-    type: schema.getMutationType()
-  }));
+  const mutationTypes = allSubschemas
+    .map(subschema => ({
+      subschema,
+      schema: subschema.schema,
+      type: subschema.schema.getMutationType()
+    }))
+    .filter(argument => argument.type) as ObjectTypeAndSchemaArray;
   const mutation = mergeRootTypes({
-    types: mutationTypes.filter(
-      argument => argument.type
-    ) as ObjectTypeAndSchemaArray,
-    newTypes
+    types: mutationTypes,
+    newTypes,
+    keyFields,
+    onTypeConflict,
+    onFieldConflict: onFieldConflict || highestPriority,
+    operation: "mutation",
+    routing,
+    report,
+    instrumentation
+  });
+
+  const subscriptionTypes = allSubschemas
+    .map(subschema => ({
+      subschema,
+      schema: subschema.schema,
+      type: subschema.schema.getSubscriptionType()
+    }))
+    .filter(argument => argument.type) as ObjectTypeAndSchemaArray;
+  const subscription = mergeRootTypes({
+    types: subscriptionTypes,
+    newTypes,
+    keyFields,
+    onTypeConflict,
+    onFieldConflict: onFieldConflict || highestPriority,
+    operation: "subscription",
+    routing,
+    report,
+    instrumentation
   });
 
   const typeNameToTypes: { [key: string]: NamedTypeAndSchemaArray } = {};
-  if (localSchema) {
-    for (const [key, type] of Object.entries(localSchema.getTypeMap())) {
+  for (const subschema of allSubschemas) {
+    for (const [key, type] of Object.entries(subschema.schema.getTypeMap())) {
+      if (isFederationType(subschema.schema, key)) {
+        reportSkippedType(report, key, [{ subschema }], "federation type");
+        continue;
+      }
       if (!typeNameToTypes[key]) {
         typeNameToTypes[key] = [];
       }
       typeNameToTypes[key].push({
-        schema: localSchema,
+        subschema,
+        schema: subschema.schema,
         type,
-        replaceResolvers: false
+        replaceResolvers: subschema.schema !== localSchema
       });
     }
   }
-  for (const schema of schemas) {
-    for (const [key, type] of Object.entries(schema.getTypeMap())) {
-      if (!typeNameToTypes[key]) {
-        typeNameToTypes[key] = [];
+
+  const directiveNameToDirectives: {
+    [key: string]: DirectiveAndSchemaArray;
+  } = {};
+  for (const subschema of allSubschemas) {
+    for (const directive of subschema.schema.getDirectives()) {
+      if (!isSpecifiedDirective(directive)) {
+        if (!directiveNameToDirectives[directive.name]) {
+          directiveNameToDirectives[directive.name] = [];
+        }
+        directiveNameToDirectives[directive.name].push({
+          subschema,
+          schema: subschema.schema,
+          directive
+        });
       }
-      typeNameToTypes[key].push({ schema, type, replaceResolvers: true });
+    }
+  }
+
+  if (onConflict === "throw" && !onFieldConflict) {
+    const conflicts = findMergeConflicts([
+      queryTypes,
+      mutationTypes,
+      subscriptionTypes,
+      ...(Object.values(typeNameToTypes).filter(candidates =>
+        candidates.every(
+          ({ type }) =>
+            isTypeToInclude(type) &&
+            (isObjectType(type) ||
+              isInterfaceType(type) ||
+              isInputObjectType(type))
+        )
+      ) as CompositeTypeAndSchemaArray[])
+    ]).concat(findDirectiveConflicts(Object.values(directiveNameToDirectives)));
+    if (conflicts.length > 0) {
+      throw new MergeConflictError(conflicts);
     }
   }
 
   for (const candidates of Object.values(typeNameToTypes)) {
+    if (
+      candidates.some(({ type }) => isSpecifiedScalarType(type)) &&
+      !candidates.some(({ type }) => isTypeToInclude(type))
+    ) {
+      reportSkippedType(
+        report,
+        candidates[0].type.name,
+        candidates,
+        "built-in scalar"
+      );
+    }
     if (candidates.every(({ type }) => isTypeToInclude(type))) {
-      if (candidates.every(({ type }) => isObjectType(type))) {
+      const typeName = candidates[0].type.name;
+      const kind = getTypeKind(candidates[0].type);
+      if (candidates.some(({ type }) => getTypeKind(type) !== kind)) {
+        const kinds = candidates
+          .map(
+            ({ subschema, type }) => `${getTypeKind(type)} in ${subschema.name}`
+          )
+          .join(", ");
+        throw new Error(
+          candidates.some(({ type }) => isObjectType(type))
+            ? `Can't merge non-Object type ${typeName} with Object type of same name (${kinds})`
+            : `Can't merge types named ${typeName} of different kinds (${kinds})`
+        );
+      }
+      if (kind === "Object") {
         const newType = mergeObjectTypes({
           types: candidates as ObjectTypeAndSchemaArray,
-          newTypes
+          newTypes,
+          keyFields,
+          merge,
+          report,
+          instrumentation,
+          cache: entityCache,
+          onTypeConflict,
+          onFieldConflict: onFieldConflict || highestPriority
         });
         newTypes[newType.name] = newType;
       } else {
-        if (candidates.some(({ type }) => isObjectType(type))) {
-          throw new Error(
-            `Can't merge non-Object type ${candidates[0].type.name} with Object type of same name`
+        const orderedTypes = orderCandidates(candidates, typeCandidates =>
+          onTypeConflict(typeCandidates, { typeName })
+        );
+        const type = orderedTypes[0].type;
+        reportType(report, typeName, kind, orderedTypes);
+        if (isUnionType(type)) {
+          newTypes[typeName] = mergeUnionTypes(orderedTypes, newTypes);
+        } else if (isInterfaceType(type)) {
+          newTypes[typeName] = mergeInterfaceTypes({
+            types: orderedTypes,
+            newTypes,
+            report,
+            onFieldConflict: onFieldConflict || highestPriority
+          });
+        } else if (isScalarType(type)) {
+          const localScalar = candidates.find(
+            candidate => candidate.schema === localSchema
           );
+          newTypes[typeName] =
+            scalars[typeName] ||
+            (localScalar ? localScalar.type : recreateScalarType(type));
+        } else if (isInputObjectType(type)) {
+          newTypes[typeName] = mergeInputTypes(orderedTypes, newTypes);
+        } else if (isEnumType(type)) {
+          newTypes[typeName] = mergeEnumTypes(orderedTypes);
         } else {
-          const type = candidates[0].type;
-          if (isUnionType(type)) {
-            newTypes[type.name] = recreateUnionType(type, newTypes);
-          } else if (isInterfaceType(type)) {
-            newTypes[type.name] = recreateInterfaceType(type, newTypes);
-          } else if (isScalarType(type)) {
-            newTypes[type.name] = recreateScalarType(type);
-          } else if (isInputObjectType(type)) {
-            newTypes[type.name] = recreateInputType(type, newTypes);
-          } else {
-            newTypes[type.name] = type;
-          }
+          newTypes[typeName] = type;
         }
       }
     }
   }
 
-  return new GraphQLSchema({
+  const rootTypes: { [name: string]: GraphQLObjectType | undefined } = {
+    Query: query,
+    Mutation: mutation,
+    Subscription: subscription
+  };
+  for (const path of Object.keys(routing)) {
+    const [typeName, fieldName] = path.split(".");
+    const rootType = rootTypes[typeName];
+    if (!rootType || !rootType.getFields()[fieldName]) {
+      throw new Error(`Can't route ${path}, it isn't a root field`);
+    }
+  }
+
+  const schema = new GraphQLSchema({
     query,
     mutation,
-    types: Object.values(newTypes)
+    subscription,
+    types: Object.values(newTypes),
+    directives: [
+      ...specifiedDirectives,
+      ...Object.values(directiveNameToDirectives).map(candidates =>
+        mergeDirectives(candidates, newTypes)
+      )
+    ]
   });
+  return { schema, report };
 }
@@ -0,0 +1,248 @@
+import {
+  DocumentNode,
+  FieldNode,
+  FragmentDefinitionNode,
+  getNamedType,
+  getNullableType,
+  GraphQLError,
+  GraphQLNamedType,
+  GraphQLOutputType,
+  GraphQLSchema,
+  isInterfaceType,
+  isListType,
+  isObjectType,
+  Kind,
+  OperationDefinitionNode,
+  SelectionSetNode,
+  ValidationContext
+} from "graphql";
+import { CompositionReport, FieldReport } from "./composition-report";
+
+const localSchemaName = "localSchema";
+
+export interface QueryCostOptions {
+  // Report of the merged schema, which tells which fields are looked up in
+  // other subschemas.
+  report: CompositionReport;
+  maxCalls?: number;
+  maxCost?: number;
+  // Costs of fields named as `Type.field`. Other fields cost 1.
+  costs?: { [path: string]: number };
+  // Expected sizes of list fields named as `Type.field`, which multiply the
+  // cost and calls of everything selected below them.
+  listSizes?: { [path: string]: number };
+  defaultListSize?: number;
+}
+
+export interface QueryCost {
+  // Requests sent to subschemas.
+  calls: number;
+  cost: number;
+}
+
+// Estimates the requests a query will send to subschemas and the cost of the
+// fields it selects. Every root field is a request to the subschema it's
+// routed to, or to each of them when it's routed to all, and fields looked up in another subschema than their parent came
+// from add a request per parent, or a single one if the lookup is batched.
+export function estimateQueryCost(
+  schema: GraphQLSchema,
+  document: DocumentNode,
+  operation: OperationDefinitionNode,
+  options: QueryCostOptions
+): QueryCost {
+  const fragments: { [name: string]: FragmentDefinitionNode } = {};
+  for (const definition of document.definitions) {
+    if (definition.kind === Kind.FRAGMENT_DEFINITION) {
+      fragments[definition.name.value] = definition;
+    }
+  }
+  const rootType = {
+    query: schema.getQueryType(),
+    mutation: schema.getMutationType(),
+    subscription: schema.getSubscriptionType()
+  }[operation.operation];
+  const total = { calls: 0, cost: 0 };
+  if (rootType) {
+    estimateSelectionSet(operation.selectionSet, rootType, undefined, 1, {
+      schema,
+      fragments,
+      options,
+      total
+    });
+  }
+  return total;
+}
+
+interface Estimate {
+  schema: GraphQLSchema;
+  fragments: { [name: string]: FragmentDefinitionNode };
+  options: QueryCostOptions;
+  total: QueryCost;
+}
+
+function estimateSelectionSet(
+  selectionSet: SelectionSetNode,
+  parentType: GraphQLNamedType,
+  source: string | undefined,
+  multiplier: number,
+  estimate: Estimate
+) {
+  const { options, total } = estimate;
+  // Fields of the same parent that are looked up in the same subschema are
+  // fetched together.
+  const lookups = new Set<string>();
+  for (const { field, type } of collectFields(
+    selectionSet,
+    parentType,
+    estimate,
+    new Set()
+  )) {
+    const fieldName = field.name.value;
+    const fieldDefinition =
+      isObjectType(type) || isInterfaceType(type)
+        ? type.getFields()[fieldName]
+        : undefined;
+    if (!fieldDefinition) {
+      continue;
+    }
+    const path = `${type.name}.${fieldName}`;
+    const typeReport = options.report.types[type.name];
+    const fieldReport = typeReport && typeReport.fields[fieldName];
+    let fieldSource = source;
+    if (fieldReport && source === undefined) {
+      total.calls += countRootFieldCalls(fieldReport) * multiplier;
+      fieldSource = fieldReport.owners[0];
+    } else if (
+      fieldReport &&
+      fieldReport.lookup &&
+      !fieldReport.subschemas.includes(source!)
+    ) {
+      fieldSource = fieldReport.owners[0];
+      if (fieldSource !== localSchemaName && !lookups.has(fieldSource)) {
+        lookups.add(fieldSource);
+        total.calls += fieldReport.lookup.batchFieldName ? 1 : multiplier;
+      }
+    }
+    const cost = options.costs && options.costs[path];
+    total.cost += (cost === undefined ? 1 : cost) * multiplier;
+    if (field.selectionSet) {
+      estimateSelectionSet(
+        field.selectionSet,
+        getNamedType(fieldDefinition.type),
+        fieldSource,
+        multiplier * getListSize(fieldDefinition.type, path, options),
+        estimate
+      );
+    }
+  }
+}
+
+// A root field is sent to every owner only when it's routed to all of them,
+// a router is expected to pick a single one, and the local schema is resolved
+// in the gateway without any request.
+function countRootFieldCalls({ owners, routing }: FieldReport) {
+  const remoteOwners = owners.filter(owner => owner !== localSchemaName);
+  return routing === "all"
+    ? remoteOwners.length
+    : Math.min(remoteOwners.length, 1);
+}
+
+function collectFields(
+  selectionSet: SelectionSetNode,
+  parentType: GraphQLNamedType,
+  estimate: Estimate,
+  visitedFragments: Set<string>
+): Array<{ field: FieldNode; type: GraphQLNamedType }> {
+  const fields: Array<{ field: FieldNode; type: GraphQLNamedType }> = [];
+  for (const selection of selectionSet.selections) {
+    if (selection.kind === Kind.FIELD) {
+      if (!selection.name.value.startsWith("__")) {
+        fields.push({ field: selection, type: parentType });
+      }
+    } else if (selection.kind === Kind.INLINE_FRAGMENT) {
+      fields.push(
+        ...collectFields(
+          selection.selectionSet,
+          getConditionType(selection.typeCondition, parentType, estimate),
+          estimate,
+          visitedFragments
+        )
+      );
+    } else {
+      const fragment = estimate.fragments[selection.name.value];
+      if (fragment && !visitedFragments.has(fragment.name.value)) {
+        visitedFragments.add(fragment.name.value);
+        fields.push(
+          ...collectFields(
+            fragment.selectionSet,
+            getConditionType(fragment.typeCondition, parentType, estimate),
+            estimate,
+            visitedFragments
+          )
+        );
+      }
+    }
+  }
+  return fields;
+}
+
+function getConditionType(
+  typeCondition: { name: { value: string } } | undefined,
+  parentType: GraphQLNamedType,
+  { schema }: Estimate
+) {
+  return (
+    (typeCondition && schema.getType(typeCondition.name.value)) || parentType
+  );
+}
+
+// Nested lists multiply their sizes.
+function getListSize(
+  type: GraphQLOutputType,
+  path: string,
+  options: QueryCostOptions
+): number {
+  const nullableType = getNullableType(type);
+  if (!isListType(nullableType)) {
+    return 1;
+  }
+  const listSize =
+    (options.listSizes && options.listSizes[path]) ||
+    (options.defaultListSize === undefined ? 10 : options.defaultListSize);
+  return listSize * getListSize(nullableType.ofType, path, options);
+}
+
+// Rejects operations that are estimated to send more requests to subschemas,
+// or to cost more, than the limits allow, so they fail before anything is
+// delegated.
+export function createQueryCostRule(options: QueryCostOptions) {
+  return (context: ValidationContext) => ({
+    OperationDefinition(operation: OperationDefinitionNode) {
+      const { calls, cost } = estimateQueryCost(
+        context.getSchema(),
+        context.getDocument(),
+        operation,
+        options
+      );
+      const name = operation.name
+        ? `Operation ${operation.name.value}`
+        : "The operation";
+      if (options.maxCalls !== undefined && calls > options.maxCalls) {
+        context.reportError(
+          new GraphQLError(
+            `${name} would send ${calls} requests to subschemas, which is more than the limit of ${options.maxCalls}`,
+            [operation]
+          )
+        );
+      }
+      if (options.maxCost !== undefined && cost > options.maxCost) {
+        context.reportError(
+          new GraphQLError(
+            `${name} has a cost of ${cost}, which is more than the limit of ${options.maxCost}`,
+            [operation]
+          )
+        );
+      }
+    }
+  });
+}
@@ -0,0 +1,40 @@
+import {
+  defaultTypeResolver,
+  GraphQLInterfaceType,
+  GraphQLTypeResolver,
+  GraphQLUnionType
+} from "graphql";
+
+// Type resolvers of other schemas return their own types, so they're turned
+// into type names that are resolved by the schema the value is completed in.
+export function resolveTypeByName(
+  resolveType?: GraphQLTypeResolver<any, any> | null
+): GraphQLTypeResolver<any, any> | undefined {
+  if (!resolveType) {
+    return undefined;
+  }
+  return (value, context, info, abstractType) => {
+    const getName = (type: any) =>
+      type && typeof type !== "string" ? type.name : type;
+    const result: any = resolveType(value, context, info, abstractType);
+    return result && typeof result.then === "function"
+      ? result.then(getName)
+      : getName(result);
+  };
+}
+
+// Values fetched from services carry their `__typename`, as it's added to every
+// abstract selection that's delegated, so they're resolved by it whichever
+// service returned them. Only values of the local schema are left to its own
+// type resolver.
+export function createMergedTypeResolver(
+  localType?: GraphQLInterfaceType | GraphQLUnionType
+): GraphQLTypeResolver<any, any> {
+  const resolveLocalType = resolveTypeByName(
+    localType && localType.resolveType
+  );
+  return (value, context, info, abstractType) =>
+    !resolveLocalType || (value && typeof value.__typename === "string")
+      ? defaultTypeResolver(value, context, info, abstractType)
+      : resolveLocalType(value, context, info, abstractType);
+}
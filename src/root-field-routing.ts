@@ -0,0 +1,59 @@
+import {
+  getNullableType,
+  GraphQLOutputType,
+  GraphQLResolveInfo,
+  isListType
+} from "graphql";
+import { flatten } from "lodash";
+import { SubschemaConfig } from "./subschema-config";
+
+type Route = string | string[];
+
+// Returns the name of the subschema a root field is sent to, or several names
+// to send it to all of them.
+export type RootFieldRouter = (
+  args: { [key: string]: any },
+  context: any,
+  info: GraphQLResolveInfo
+) => Route | Promise<Route>;
+
+// Root fields are named as `Query.fieldName`, `Mutation.fieldName` and so on.
+// "all" sends the field to every subschema that declares it.
+export interface RootFieldRoutingMap {
+  [path: string]: RootFieldRouter | "all";
+}
+
+export function getRouteTargets(
+  route: Route,
+  subschemas: SubschemaConfig[],
+  info: GraphQLResolveInfo
+): SubschemaConfig[] {
+  const names = Array.isArray(route) ? route : [route];
+  if (names.length === 0) {
+    throw new Error(
+      `No subschema was chosen for ${info.parentType.name}.${info.fieldName}`
+    );
+  }
+  return names.map(name => {
+    const subschema = subschemas.find(candidate => candidate.name === name);
+    if (!subschema) {
+      throw new Error(
+        `Subschema ${name} can't resolve ${info.parentType.name}.${
+          info.fieldName
+        }, it's only declared by ${subschemas.map(s => s.name).join(", ")}`
+      );
+    }
+    return subschema;
+  });
+}
+
+// Combines the results of a root field that was sent to several subschemas.
+// Lists are concatenated, and for other types the first result that isn't null
+// is used.
+export function combineRoutedResults(values: any[], type: GraphQLOutputType) {
+  const results = values.filter(value => value !== null && value !== undefined);
+  if (isListType(getNullableType(type))) {
+    return results.length > 0 ? flatten(results) : values[0];
+  }
+  return results.length > 0 ? results[0] : values[0];
+}
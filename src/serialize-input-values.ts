@@ -0,0 +1,103 @@
+import {
+  GraphQLArgument,
+  GraphQLInputType,
+  GraphQLList,
+  GraphQLNonNull,
+  GraphQLResolveInfo,
+  GraphQLSchema,
+  isEnumType,
+  isInputObjectType,
+  isInputType,
+  isListType,
+  isNonNullType,
+  isScalarType,
+  Kind,
+  TypeNode
+} from "graphql";
+
+// Arguments and variables are parsed by the merged schema's scalars before
+// they reach a resolver, so they're serialized again before they're passed on
+// to another service. Merged input types have the fields of every service, so
+// the fields that the target's input type doesn't declare are left out.
+export function serializeArgs(
+  args: { [key: string]: any },
+  argDefs: GraphQLArgument[],
+  targetSchema: GraphQLSchema
+) {
+  const serialized: { [key: string]: any } = {};
+  for (const { name, type } of argDefs) {
+    if (args[name] !== undefined) {
+      serialized[name] = serializeInputValue(args[name], type, targetSchema);
+    }
+  }
+  return serialized;
+}
+
+export function serializeVariableValues(
+  info: GraphQLResolveInfo,
+  targetSchema: GraphQLSchema
+) {
+  const serialized: { [key: string]: any } = { ...info.variableValues };
+  for (const definition of info.operation.variableDefinitions || []) {
+    const name = definition.variable.name.value;
+    const type = getVariableType(info.schema, definition.type);
+    if (type && serialized[name] !== undefined) {
+      serialized[name] = serializeInputValue(
+        serialized[name],
+        type,
+        targetSchema
+      );
+    }
+  }
+  return serialized;
+}
+
+function getVariableType(
+  schema: GraphQLSchema,
+  typeNode: TypeNode
+): GraphQLInputType | undefined {
+  if (typeNode.kind === Kind.NON_NULL_TYPE) {
+    const ofType = getVariableType(schema, typeNode.type);
+    return ofType && new GraphQLNonNull(ofType);
+  } else if (typeNode.kind === Kind.LIST_TYPE) {
+    const ofType = getVariableType(schema, typeNode.type);
+    return ofType && new GraphQLList(ofType);
+  }
+  const type = schema.getType(typeNode.name.value);
+  return isInputType(type) ? type : undefined;
+}
+
+function serializeInputValue(
+  value: any,
+  type: GraphQLInputType,
+  targetSchema: GraphQLSchema
+): any {
+  if (value === null || value === undefined) {
+    return value;
+  } else if (isNonNullType(type)) {
+    return serializeInputValue(value, type.ofType, targetSchema);
+  } else if (isListType(type)) {
+    return Array.isArray(value)
+      ? value.map(item => serializeInputValue(item, type.ofType, targetSchema))
+      : serializeInputValue(value, type.ofType, targetSchema);
+  } else if (isInputObjectType(type)) {
+    const fields = type.getFields();
+    const targetType = targetSchema.getType(type.name);
+    const targetFields = isInputObjectType(targetType)
+      ? targetType.getFields()
+      : fields;
+    const serialized: { [key: string]: any } = {};
+    for (const [key, fieldValue] of Object.entries(value)) {
+      if (!targetFields[key]) {
+        continue;
+      }
+      serialized[key] = fields[key]
+        ? serializeInputValue(fieldValue, fields[key].type, targetSchema)
+        : fieldValue;
+    }
+    return serialized;
+  } else if (isScalarType(type) || isEnumType(type)) {
+    return type.serialize(value);
+  }
+  return value;
+}
@@ -0,0 +1,90 @@
+import { GraphQLResolveInfo, GraphQLSchema } from "graphql";
+import {
+  AddArgumentsAsVariables,
+  Request,
+  Transform,
+  transformSchema
+} from "graphql-tools";
+import { FailurePolicy } from "./failure-policy";
+import { MergeTypeConfigMap } from "./merge-hints";
+
+export interface SubschemaConfig {
+  name: string;
+  schema: GraphQLSchema;
+  merge?: MergeTypeConfigMap;
+  transforms?: Transform[];
+  priority?: number;
+  onFailure?: FailurePolicy;
+  timeout?: number;
+  // Returns the context the subschema is sent instead of the incoming one, or
+  // a promise of it, e.g. with the headers or tenant of that service.
+  transformContext?: (context: any, info: GraphQLResolveInfo) => any;
+  // Changes the document or variables of a request before it's sent. Both
+  // hooks can throw to block the request.
+  transformRequest?: (
+    request: Request,
+    context: any,
+    info: GraphQLResolveInfo
+  ) => Request;
+}
+
+export function createSubschemas({
+  schemas,
+  subschemas
+}: {
+  schemas: GraphQLSchema[];
+  subschemas: SubschemaConfig[];
+}): SubschemaConfig[] {
+  const configs: SubschemaConfig[] = [
+    ...schemas.map((schema, index) => ({ name: `schemas[${index}]`, schema })),
+    ...subschemas
+  ];
+  const names = new Set<string>();
+  for (const { name } of configs) {
+    if (names.has(name)) {
+      throw new Error(`Subschema name ${name} is used more than once`);
+    }
+    names.add(name);
+  }
+  return configs.map(config =>
+    config.transforms && config.transforms.length > 0
+      ? { ...config, schema: transformSchema(config.schema, config.transforms) }
+      : config
+  );
+}
+
+export function getSubschemaContext(
+  subschema: SubschemaConfig,
+  context: any,
+  info: GraphQLResolveInfo
+): Promise<any> {
+  const { transformContext } = subschema;
+  return Promise.resolve().then(() =>
+    transformContext ? transformContext(context, info) : context
+  );
+}
+
+// Arguments are added to the request as variables before it's passed to
+// transformRequest, so they can be rewritten as well. That leaves no arguments
+// for delegateToSchema to add.
+export function createSubschemaRequest(
+  subschema: SubschemaConfig,
+  args: { [key: string]: any },
+  context: any,
+  info: GraphQLResolveInfo
+): { args: { [key: string]: any }; transforms: Transform[] } {
+  const { transformRequest } = subschema;
+  if (!transformRequest) {
+    return { args, transforms: [] };
+  }
+  const addArgs = new AddArgumentsAsVariables(subschema.schema, args);
+  return {
+    args: {},
+    transforms: [
+      {
+        transformRequest: request =>
+          transformRequest(addArgs.transformRequest(request), context, info)
+      }
+    ]
+  };
+}
@@ -0,0 +1,328 @@
+import {
+  getNamedType,
+  GraphQLArgument,
+  GraphQLArgumentConfig,
+  GraphQLDirective,
+  GraphQLField,
+  GraphQLFieldConfig,
+  GraphQLInputField,
+  GraphQLInputFieldConfig,
+  GraphQLInputObjectType,
+  GraphQLInputType,
+  GraphQLInterfaceType,
+  GraphQLList,
+  GraphQLNamedType,
+  GraphQLNonNull,
+  GraphQLObjectType,
+  GraphQLOutputType,
+  GraphQLSchema,
+  GraphQLType,
+  GraphQLUnionType,
+  isInputObjectType,
+  isInterfaceType,
+  isListType,
+  isNonNullType,
+  isObjectType,
+  isScalarType,
+  isUnionType
+} from "graphql";
+import { RenameRootFields, RenameTypes, Transform } from "graphql-tools";
+import { lowerFirst, upperFirst } from "lodash";
+import { resolveTypeByName } from "./resolve-type";
+
+type RootTypeName = "Query" | "Mutation" | "Subscription";
+
+export type TypeRenames =
+  | { [name: string]: string }
+  | ((name: string) => string);
+
+// Root fields are named as `Query.fieldName`, `Mutation.fieldName` and so on.
+export type RootFieldRenames =
+  | { [path: string]: string }
+  | ((operation: RootTypeName, fieldName: string) => string);
+
+export function createRenameTypesTransform(renames: TypeRenames): Transform {
+  return new RenameTypes(
+    typeof renames === "function" ? renames : name => renames[name] || name
+  );
+}
+
+export function createRenameRootFieldsTransform(
+  renames: RootFieldRenames
+): Transform {
+  return new RenameRootFields(
+    typeof renames === "function"
+      ? renames
+      : (operation, fieldName) =>
+          renames[`${operation}.${fieldName}`] || fieldName
+  );
+}
+
+// Prefixes the types and root fields of a subschema, e.g. `Settings` becomes
+// `BillingSettings` and `settings` becomes `billingSettings`. Scalars are kept,
+// as they're meant to be shared between services.
+export function createNamespaceTransform(prefix: string): Transform {
+  const renameTypes = new RenameTypes(name => `${upperFirst(prefix)}${name}`, {
+    renameBuiltins: false,
+    renameScalars: false
+  });
+  const renameRootFields = new RenameRootFields(
+    (operation, fieldName) => `${lowerFirst(prefix)}${upperFirst(fieldName)}`
+  );
+  return {
+    transformSchema(schema: GraphQLSchema) {
+      return renameRootFields.transformSchema(
+        renameTypes.transformSchema(schema)
+      );
+    },
+    transformRequest(request) {
+      return renameTypes.transformRequest(request);
+    },
+    transformResult(result) {
+      return renameTypes.transformResult(result);
+    }
+  };
+}
+
+// Removes types, and fields written as `Type.field`, from a subschema. Fields
+// and arguments that refer to a hidden type are removed as well, and so are
+// types that are left without fields.
+export function createHideTransform(paths: string[]): Transform {
+  return {
+    transformSchema(schema: GraphQLSchema) {
+      for (const path of paths) {
+        if (!pathExists(schema, path)) {
+          throw new Error(`Can't hide ${path}, it isn't defined in the schema`);
+        }
+      }
+      return filterSchema(schema, new Set(paths));
+    }
+  };
+}
+
+function pathExists(schema: GraphQLSchema, path: string) {
+  const [typeName, fieldName] = path.split(".");
+  const type = schema.getType(typeName);
+  if (!type || fieldName === undefined) {
+    return Boolean(type);
+  }
+  return (
+    (isObjectType(type) || isInterfaceType(type) || isInputObjectType(type)) &&
+    Boolean(type.getFields()[fieldName])
+  );
+}
+
+function filterSchema(schema: GraphQLSchema, hidden: Set<string>) {
+  const hiddenTypes = findHiddenTypes(schema, hidden);
+  const isVisible = (type: GraphQLType) =>
+    !hiddenTypes.has(getNamedType(type).name);
+
+  const newTypes: { [name: string]: GraphQLNamedType } = {};
+  function getType(type: GraphQLInputType): GraphQLInputType;
+  function getType(type: GraphQLOutputType): GraphQLOutputType;
+  function getType(type: GraphQLType): GraphQLType {
+    if (isNonNullType(type)) {
+      return new GraphQLNonNull(getType(type.ofType));
+    } else if (isListType(type)) {
+      return new GraphQLList(getType(type.ofType));
+    }
+    return newTypes[type.name] || type;
+  }
+  const createArgs = (args: GraphQLArgument[]) => {
+    const argsConfig: { [name: string]: GraphQLArgumentConfig } = {};
+    for (const arg of args.filter(({ type }) => isVisible(type))) {
+      argsConfig[arg.name] = {
+        type: getType(arg.type),
+        defaultValue: arg.defaultValue,
+        description: arg.description,
+        astNode: arg.astNode
+      };
+    }
+    return argsConfig;
+  };
+  const createFields = (type: GraphQLObjectType | GraphQLInterfaceType) => {
+    const fieldsConfig: { [name: string]: GraphQLFieldConfig<any, any> } = {};
+    for (const field of Object.values(type.getFields())) {
+      if (isFieldVisible(type, field, hidden, hiddenTypes)) {
+        fieldsConfig[field.name] = {
+          type: getType(field.type),
+          args: createArgs(field.args),
+          resolve: field.resolve,
+          subscribe: field.subscribe,
+          deprecationReason: field.deprecationReason,
+          description: field.description,
+          astNode: field.astNode
+        };
+      }
+    }
+    return fieldsConfig;
+  };
+  const createInputFields = (type: GraphQLInputObjectType) => {
+    const fieldsConfig: { [name: string]: GraphQLInputFieldConfig } = {};
+    for (const field of Object.values(type.getFields())) {
+      if (isFieldVisible(type, field, hidden, hiddenTypes)) {
+        fieldsConfig[field.name] = {
+          type: getType(field.type),
+          defaultValue: field.defaultValue,
+          description: field.description,
+          astNode: field.astNode
+        };
+      }
+    }
+    return fieldsConfig;
+  };
+
+  for (const type of Object.values(schema.getTypeMap())) {
+    if (hiddenTypes.has(type.name) || type.name.startsWith("__")) {
+      continue;
+    }
+    if (isObjectType(type)) {
+      newTypes[type.name] = new GraphQLObjectType({
+        name: type.name,
+        description: type.description,
+        interfaces: () =>
+          type
+            .getInterfaces()
+            .filter(isVisible)
+            .map(getType)
+            .filter(isInterfaceType),
+        fields: () => createFields(type),
+        isTypeOf: type.isTypeOf,
+        astNode: type.astNode,
+        extensionASTNodes: type.extensionASTNodes
+      });
+    } else if (isInterfaceType(type)) {
+      newTypes[type.name] = new GraphQLInterfaceType({
+        name: type.name,
+        description: type.description,
+        fields: () => createFields(type),
+        resolveType: resolveTypeByName(type.resolveType),
+        astNode: type.astNode,
+        extensionASTNodes: type.extensionASTNodes
+      });
+    } else if (isUnionType(type)) {
+      newTypes[type.name] = new GraphQLUnionType({
+        name: type.name,
+        description: type.description,
+        types: () =>
+          type
+            .getTypes()
+            .filter(isVisible)
+            .map(getType)
+            .filter(isObjectType),
+        resolveType: resolveTypeByName(type.resolveType),
+        astNode: type.astNode,
+        extensionASTNodes: type.extensionASTNodes
+      });
+    } else if (isInputObjectType(type)) {
+      newTypes[type.name] = new GraphQLInputObjectType({
+        name: type.name,
+        description: type.description,
+        fields: () => createInputFields(type),
+        astNode: type.astNode,
+        extensionASTNodes: type.extensionASTNodes
+      });
+    } else {
+      // Scalars and enums don't refer to other types, so they can be shared
+      // with the original schema.
+      newTypes[type.name] = type;
+    }
+  }
+
+  const rootType = (type?: GraphQLObjectType | null) =>
+    type && newTypes[type.name]
+      ? (newTypes[type.name] as GraphQLObjectType)
+      : undefined;
+  return new GraphQLSchema({
+    query: rootType(schema.getQueryType())!,
+    mutation: rootType(schema.getMutationType()),
+    subscription: rootType(schema.getSubscriptionType()),
+    types: Object.values(newTypes),
+    directives: schema
+      .getDirectives()
+      .filter(directive =>
+        directive.args.every(arg => isVisible(arg.type) || !isRequired(arg))
+      )
+      .map(
+        directive =>
+          new GraphQLDirective({
+            name: directive.name,
+            description: directive.description,
+            locations: directive.locations,
+            args: createArgs(directive.args),
+            astNode: directive.astNode
+          })
+      ),
+    astNode: schema.astNode
+  });
+}
+
+function findHiddenTypes(schema: GraphQLSchema, hidden: Set<string>) {
+  const hiddenTypes = new Set(
+    Object.keys(schema.getTypeMap()).filter(name => hidden.has(name))
+  );
+  const isVisible = (type: GraphQLType) =>
+    !hiddenTypes.has(getNamedType(type).name);
+  const hasVisibleFields = (type: GraphQLNamedType) => {
+    if (isObjectType(type) || isInterfaceType(type)) {
+      return Object.values(
+        type.getFields()
+      ).some((field: GraphQLField<any, any>) =>
+        isFieldVisible(type, field, hidden, hiddenTypes)
+      );
+    } else if (isUnionType(type)) {
+      return type.getTypes().some(isVisible);
+    } else if (isInputObjectType(type)) {
+      const fields = Object.values(type.getFields()).map(field => ({
+        field,
+        visible: isFieldVisible(type, field, hidden, hiddenTypes)
+      }));
+      return (
+        fields.some(({ visible }) => visible) &&
+        fields.every(({ field, visible }) => visible || !isRequired(field))
+      );
+    }
+    return true;
+  };
+
+  // Hiding a type can leave other types without fields, so this is repeated
+  // until no more types are hidden.
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const type of Object.values(schema.getTypeMap())) {
+      if (
+        !hiddenTypes.has(type.name) &&
+        !type.name.startsWith("__") &&
+        type !== schema.getQueryType() &&
+        !isScalarType(type) &&
+        !hasVisibleFields(type)
+      ) {
+        hiddenTypes.add(type.name);
+        changed = true;
+      }
+    }
+  }
+  return hiddenTypes;
+}
+
+function isFieldVisible(
+  type: GraphQLNamedType,
+  field: GraphQLField<any, any> | GraphQLInputField,
+  hidden: Set<string>,
+  hiddenTypes: Set<string>
+) {
+  const isVisible = ({ type: fieldType }: { type: GraphQLType }) =>
+    !hiddenTypes.has(getNamedType(fieldType).name);
+  return (
+    !hidden.has(`${type.name}.${field.name}`) &&
+    isVisible(field) &&
+    ("args" in field
+      ? field.args.every(arg => isVisible(arg) || !isRequired(arg))
+      : true)
+  );
+}
+
+function isRequired(arg: GraphQLArgument | GraphQLInputField) {
+  return isNonNullType(arg.type) && arg.defaultValue === undefined;
+}